@@ -0,0 +1,81 @@
+/**
+ * Flex Living Reviews Widget Loader
+ *
+ * Shows a property's approved guest reviews on any site:
+ *
+ *   <div data-flex-living-reviews data-property-id="1001"
+ *        data-theme="dark" data-max-reviews="3" data-min-rating="4"></div>
+ *   <script src="https://<site>/widget.js" async></script>
+ *
+ * Each placeholder is replaced with an iframe of `/embed/<property-id>` that
+ * resizes to fit its content. `data-theme` (light or dark),
+ * `data-max-reviews` (1-20) and `data-min-rating` (0-5) are optional.
+ * Placeholders added later can be mounted with `FlexLivingReviews.mount()`.
+ */
+(function () {
+  'use strict';
+
+  var RESIZE_MESSAGE = 'flex-living-reviews:resize';
+  var OPTIONS = [
+    ['theme', 'data-theme'],
+    ['maxReviews', 'data-max-reviews'],
+    ['minRating', 'data-min-rating'],
+  ];
+
+  var script = document.currentScript;
+  var scriptUrl = script && script.src ? script.src : window.location.href;
+  var origin = new URL(scriptUrl).origin;
+  var frames = [];
+
+  function mountElement(element) {
+    if (element.getAttribute('data-flex-living-mounted')) return;
+
+    var propertyId = element.getAttribute('data-property-id');
+    if (!propertyId) {
+      console.warn('Flex Living reviews: data-property-id is required', element);
+      return;
+    }
+
+    var url = new URL('embed/' + encodeURIComponent(propertyId), scriptUrl);
+    OPTIONS.forEach(function (option) {
+      var value = element.getAttribute(option[1]);
+      if (value) url.searchParams.set(option[0], value);
+    });
+
+    var iframe = document.createElement('iframe');
+    iframe.src = url.toString();
+    iframe.title = 'Guest reviews';
+    iframe.loading = 'lazy';
+    iframe.style.cssText = 'display:block;width:100%;height:360px;border:0;';
+
+    element.setAttribute('data-flex-living-mounted', 'true');
+    element.appendChild(iframe);
+    frames.push(iframe);
+  }
+
+  function mount() {
+    var elements = document.querySelectorAll('[data-flex-living-reviews]');
+    Array.prototype.forEach.call(elements, mountElement);
+  }
+
+  // Size each iframe to the height its content reports
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.origin !== origin || !data || data.type !== RESIZE_MESSAGE) return;
+    if (typeof data.height !== 'number') return;
+
+    frames.forEach(function (iframe) {
+      if (iframe.contentWindow === event.source) {
+        iframe.style.height = Math.ceil(data.height) + 'px';
+      }
+    });
+  });
+
+  window.FlexLivingReviews = { mount: mount };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', mount);
+  } else {
+    mount();
+  }
+})();
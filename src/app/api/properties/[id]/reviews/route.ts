@@ -0,0 +1,95 @@
+/**
+ * GET /api/properties/[id]/reviews
+ *
+ * Public reviews endpoint: a property's manager-approved guest reviews,
+ * one page at a time, as shown in the Guest Reviews section of the property
+ * page. Private notes and stay details are never returned.
+ *
+ * Query Parameters:
+ * - sort: newest, highest or lowest (default newest)
+ * - stars: 1-5, reviews whose overall rating rounds to that many stars
+ * - stay: short (1-2 nights), medium (3-6) or long (7+)
+ * - q: Text to search for in the review or reviewer name (max 100 characters)
+ * - pageSize: Reviews per page (max 100, default 10)
+ * - cursor: Opaque cursor from meta.pagination.nextCursor
+ *
+ * Response Structure:
+ * {
+ *   success: boolean,
+ *   reviews: NormalizedReview[],
+ *   meta: { total: number, pagination: ReviewPagination }
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigError } from '@/lib/config';
+import { GooglePlacesApiError } from '@/lib/google-places-client';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import { getProperty } from '@/lib/property-catalog';
+import { getApprovedPropertyReviews } from '@/lib/public-reviews';
+import {
+  paginate,
+  parsePageRequest,
+  parsePublicReviewQuery,
+  QueryValidationError,
+} from '@/lib/review-query';
+import type { PublicReviewsResponse } from '@/types/review';
+
+const DEFAULT_PAGE_SIZE = 10;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parsePublicReviewQuery(searchParams);
+    const pageRequest = parsePageRequest(searchParams) ?? { offset: 0, pageSize: DEFAULT_PAGE_SIZE };
+
+    if (!(await getProperty(params.id))) {
+      return NextResponse.json<PublicReviewsResponse>(
+        { success: false, reviews: [], error: 'Property not found' },
+        { status: 404 }
+      );
+    }
+
+    const reviews = await getApprovedPropertyReviews(params.id, query);
+    const page = paginate(reviews, pageRequest);
+
+    return NextResponse.json<PublicReviewsResponse>({
+      success: true,
+      reviews: page.items,
+      meta: {
+        total: reviews.length,
+        pagination: page.pagination,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return NextResponse.json<PublicReviewsResponse>(
+        { success: false, reviews: [], error: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching public reviews:', error);
+
+    const isUpstreamError =
+      error instanceof HostawayApiError || error instanceof GooglePlacesApiError;
+
+    return NextResponse.json<PublicReviewsResponse>(
+      {
+        success: false,
+        reviews: [],
+        error: error instanceof ConfigError
+          ? error.message
+          : 'Failed to fetch reviews. Please try again later.',
+      },
+      { status: isUpstreamError ? 502 : 500 }
+    );
+  }
+}
+
+// Approval state changes at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,42 @@
+/**
+ * GET /api/properties/[id]
+ *
+ * Returns a single property from the property catalog by its ID (the
+ * Hostaway listing ID), or 404 if it is not in the catalog.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProperty } from '@/lib/property-catalog';
+import { ConfigError } from '@/lib/config';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const property = await getProperty(params.id);
+
+    if (!property) {
+      return NextResponse.json(
+        { success: false, error: 'Property not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, property });
+
+  } catch (error) {
+    console.error('Error reading property catalog:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof ConfigError ? error.message : 'Failed to read property catalog',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Synced listings change at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
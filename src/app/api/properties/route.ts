@@ -0,0 +1,35 @@
+/**
+ * GET /api/properties
+ *
+ * Lists every property in the property catalog, in catalog order.
+ */
+
+import { NextResponse } from 'next/server';
+import { getProperties } from '@/lib/property-catalog';
+import { ConfigError } from '@/lib/config';
+
+export async function GET() {
+  try {
+    const properties = await getProperties();
+
+    return NextResponse.json({
+      success: true,
+      total: properties.length,
+      properties,
+    });
+
+  } catch (error) {
+    console.error('Error reading property catalog:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof ConfigError ? error.message : 'Failed to read property catalog',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Synced listings change at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
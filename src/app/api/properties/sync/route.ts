@@ -0,0 +1,81 @@
+/**
+ * POST /api/properties/sync
+ *
+ * Syncs listings from Hostaway's listings endpoint into the property
+ * catalog. Review syncs run a listing sync first as well, so this is only
+ * needed to pick up listing changes right away.
+ *
+ * GET /api/properties/sync
+ *
+ * Returns the synced listing count and the last (successful) listing sync.
+ */
+
+import { NextResponse } from 'next/server';
+import { isListingSyncEnabled, syncListings } from '@/lib/listing-sync';
+import { readPropertyCatalogStore } from '@/lib/property-catalog';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import { ConfigError, getConfig } from '@/lib/config';
+
+export async function POST() {
+  try {
+    if (!isListingSyncEnabled(getConfig())) {
+      return NextResponse.json(
+        { success: false, error: 'Listings cannot be synced when REVIEWS_DATA_SOURCE=file' },
+        { status: 400 }
+      );
+    }
+
+    const sync = await syncListings();
+
+    return NextResponse.json({ success: true, sync });
+
+  } catch (error) {
+    console.error('Error syncing listings:', error);
+
+    const isUpstreamError = error instanceof HostawayApiError;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: isUpstreamError
+          ? `Hostaway API error: ${error.message}`
+          : error instanceof ConfigError
+            ? error.message
+            : 'Listing sync failed',
+        ...(isUpstreamError && { errorCode: error.code }),
+      },
+      { status: isUpstreamError ? 502 : 500 }
+    );
+  }
+}
+
+/**
+ * GET handler for /api/properties/sync
+ */
+export async function GET() {
+  try {
+    const snapshot = await readPropertyCatalogStore();
+
+    return NextResponse.json({
+      success: true,
+      enabled: isListingSyncEnabled(getConfig()),
+      syncedListings: Object.keys(snapshot.listings).length,
+      lastSync: snapshot.lastSync,
+      lastSuccessfulSync: snapshot.lastSuccessfulSync,
+    });
+
+  } catch (error) {
+    console.error('Error reading property catalog:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof ConfigError ? error.message : 'Failed to read property catalog',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Catalog state changes at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,100 @@
+/**
+ * GET /api/reviews/analytics
+ *
+ * Guest ratings over time for the dashboard's Trends tab: average rating,
+ * review count and category averages per week, month or quarter, for all
+ * matching reviews and per property or channel, with period-over-period
+ * changes and a rating trend for each series.
+ *
+ * Query Parameters:
+ * - interval: week, month or quarter (default month); weeks start on Monday, UTC
+ * - groupBy: property or channel (default property)
+ * - Any filter accepted by `/api/reviews/hostaway` (propertyId, channel,
+ *   status, dateFrom, dateTo, approvedOnly, ...)
+ *
+ * Only rated guest reviews are analysed. Periods run from the earliest to the
+ * latest matching review (at most 104, the most recent), including empty ones.
+ * Invalid parameters are rejected with a 400 listing each problem.
+ *
+ * Response Structure:
+ * {
+ *   success: boolean,
+ *   interval, groupBy,
+ *   periods: { start, label }[],
+ *   overall: AnalyticsSeries,        // every matching review
+ *   series: AnalyticsSeries[],       // per property or channel, most reviewed first
+ *   categories: CategorySummary[]
+ * }
+ *
+ * Each series has `reviewCount`, `averageRating`, a `trend`
+ * ({ direction, slopePerMonth, significant, reviewCount }) and one bucket per
+ * period ({ period, reviewCount, averageRating, categoryAverages,
+ * ratingChange, reviewCountChange }).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildReviewAnalytics } from '@/lib/analytics';
+import { getApprovedIdsSet } from '@/lib/approval-store';
+import { ConfigError } from '@/lib/config';
+import { GooglePlacesApiError } from '@/lib/google-places-client';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import {
+  parseAnalyticsQuery,
+  parseReviewFilters,
+  QueryValidationError,
+} from '@/lib/review-query';
+import { getReviews } from '@/lib/review-service';
+import { buildReviewsResponse, filterReviews } from '@/lib/review-utils';
+import type { ReviewAnalyticsResponse } from '@/types/analytics';
+
+function respond(body: ReviewAnalyticsResponse, status = 200) {
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseReviewFilters(searchParams);
+    const query = parseAnalyticsQuery(searchParams);
+
+    // Load stored reviews with the current approval state
+    const [{ reviews }, approvedIds] = await Promise.all([getReviews(), getApprovedIdsSet()]);
+    const { reviews: normalized, meta } = buildReviewsResponse(
+      reviews.map(review => ({ ...review, isApprovedForDisplay: approvedIds.has(review.id) }))
+    );
+
+    const analytics = buildReviewAnalytics(
+      filterReviews(normalized, filters),
+      query,
+      meta.categories
+    );
+
+    return respond({ success: true, ...analytics });
+
+  } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return respond({ success: false, error: error.message, issues: error.issues }, 400);
+    }
+
+    console.error('Error building review analytics:', error);
+
+    const isUpstreamError =
+      error instanceof HostawayApiError || error instanceof GooglePlacesApiError;
+
+    return respond(
+      {
+        success: false,
+        error: isUpstreamError
+          ? `${error instanceof HostawayApiError ? 'Hostaway' : 'Google Places'} API error: ${error.message}`
+          : error instanceof ConfigError
+            ? error.message
+            : 'Failed to load review analytics',
+        ...(isUpstreamError && { errorCode: error.code }),
+      },
+      isUpstreamError ? 502 : 500
+    );
+  }
+}
+
+// Reviews and approval state change at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
@@ -1,13 +1,19 @@
 /**
  * POST /api/reviews/approve
- * 
- * This endpoint exists for API completeness but approval state
- * is managed client-side via localStorage for this demo.
- * 
- * In production, this would update a database.
+ *
+ * Updates the approval status of a review in the server-side approval store.
+ * Approved reviews are shown to guests on the public property pages; the
+ * page of the review's property is revalidated so the change shows at once.
+ *
+ * GET /api/reviews/approve
+ *
+ * Returns the authoritative set of approved review IDs.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getApprovalRecord, setReviewApproval } from '@/lib/approval-store';
+import { ConfigError } from '@/lib/config';
+import { revalidateReviewPages } from '@/lib/public-reviews';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,34 +27,58 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // In this demo, approval state is managed client-side via localStorage
-    // This endpoint acknowledges the request for API completeness
+    const record = await setReviewApproval(String(reviewId), approved);
+
+    // The approval is saved; a stale page still refreshes on its own interval
+    await revalidateReviewPages(String(reviewId)).catch(error => {
+      console.error('Error revalidating property page:', error);
+    });
+
     return NextResponse.json({
       success: true,
-      reviewId,
+      reviewId: String(reviewId),
       approved,
-      message: 'Approval state is managed client-side in this demo',
+      lastUpdated: record.lastUpdated,
     });
 
   } catch (error) {
     console.error('Error in approve endpoint:', error);
-    
+
     return NextResponse.json(
-      { success: false, error: 'Request processing failed' },
+      {
+        success: false,
+        error: error instanceof ConfigError ? error.message : 'Request processing failed',
+      },
       { status: 500 }
     );
   }
 }
 
 /**
- * GET /api/reviews/approve
- * 
- * Returns info about approval management in this demo
+ * GET handler for /api/reviews/approve
  */
 export async function GET() {
-  return NextResponse.json({
-    success: true,
-    message: 'Approval state is managed client-side via localStorage in this demo',
-    note: 'In production, this would query a database for approved review IDs',
-  });
+  try {
+    const record = await getApprovalRecord();
+
+    return NextResponse.json({
+      success: true,
+      approvedReviewIds: record.approvedReviewIds,
+      lastUpdated: record.lastUpdated,
+    });
+
+  } catch (error) {
+    console.error('Error reading approvals:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof ConfigError ? error.message : 'Failed to read approvals',
+      },
+      { status: 500 }
+    );
+  }
 }
+
+// Approval state changes at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
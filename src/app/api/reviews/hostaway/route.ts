@@ -1,127 +1,145 @@
 /**
  * GET /api/reviews/hostaway
  * 
- * This API route fetches reviews from the Hostaway API (or mock data) and
- * returns a normalized, frontend-friendly response.
+ * This API route serves normalized reviews from the local review store,
+ * which is synced from every enabled review source (Hostaway, via the API,
+ * bundled mock data or a JSON file, plus Google, see `src/lib/config.ts`)
+ * once the cache TTL has passed. If a sync fails, stored reviews are served with
+ * `meta.source.mode` set to `cache`; with nothing stored yet, upstream
+ * failures are reported with a 502 rather than hidden.
  * 
  * Query Parameters:
  * - propertyId: Filter by specific property
- * - channel: Filter by booking channel (airbnb, booking.com, etc.)
+ * - channel: Filter by booking channel key or alias (airbnb, booking.com, google, etc.)
  * - type: Filter by review type (guest, host, all)
- * - minRating: Minimum rating filter
+ * - status: Filter by review status (published, pending, rejected, all)
+ * - minRating / maxRating: Rating bounds (0-5, inclusive)
+ * - dateFrom / dateTo: Submission date bounds (YYYY-MM-DD or ISO 8601, inclusive);
+ *   dates are whole days in each listing's timezone
+ * - minNights / maxNights: Length-of-stay bounds (1-365, inclusive)
+ * - season: Season of check-in (spring, summer, autumn, winter)
+ *   (stay filters only match reviews linked to a reservation)
+ * - approvedOnly: Return only manager-approved reviews
+ * - category: Category threshold as <name>:<min>:<max>, repeatable
+ *   (e.g. category=cleanliness::6 for cleanliness of 6/10 or less)
+ * - sort: date, rating, property, channel or category:<name> (default date)
+ * - order: asc or desc (default desc)
+ * - page / pageSize: 1-based page and page size (max 100, default 20)
+ * - cursor: Opaque cursor from meta.pagination.nextCursor (instead of page)
+ * - issue: Issue key the review text must mention (see `src/lib/issues.ts`)
+ *
+ * Without paging parameters every matching review is returned.
+ * Invalid parameters are rejected with a 400 listing each problem.
  * 
- * Note: Approval status is managed client-side via localStorage in this demo.
- * The API returns all reviews; the client filters by approved status.
+ * Approval status comes from the server-side approval store, so
+ * `isApprovedForDisplay` is authoritative on every review returned. Each
+ * review is tagged with the `issues` found in its text and private notes.
  * 
  * Response Structure:
  * {
  *   success: boolean,
  *   reviews: NormalizedReview[],
  *   meta: {
- *     total: number,
+ *     total: number,                 // matching reviews across all pages
  *     properties: PropertyInfo[],
  *     channels: string[],
- *     dateRange: { earliest: string, latest: string }
+ *     categories: CategorySummary[],
+ *     dateRange: { earliest: string, latest: string },
+ *     source: { mode, fetchedAt, upstreamStatus, recordCounts, sources },
+ *     rejected: { total, bySource },  // upstream records quarantined as malformed
+ *     pagination?: { page, pageSize, totalPages, hasMore, nextCursor },
+ *     rating: { method, priorWeight, priorMean, minReviews, includeUnapproved }
  *   }
  * }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { normalizeHostawayResponse, filterReviews } from '@/lib/review-utils';
-import type { HostawayApiResponse } from '@/types/review';
-
-// Import mock data
-import mockReviews from '@/data/mock-reviews.json';
-
-// Hostaway API configuration (from assessment document)
-const HOSTAWAY_CONFIG = {
-  accountId: '61148',
-  apiKey: 'f94377ebbbb479490bb3ec364649168dc443dda2e4830facaf5de2e74ccc9152',
-  baseUrl: 'https://api.hostaway.com/v1',
-};
-
-/**
- * Attempt to fetch reviews from the real Hostaway API
- * Falls back to mock data if the API returns no results (sandbox mode)
- */
-async function fetchHostawayReviews(): Promise<HostawayApiResponse> {
-  try {
-    // Attempt to call the real Hostaway API
-    const response = await fetch(
-      `${HOSTAWAY_CONFIG.baseUrl}/reviews`,
-      {
-        headers: {
-          'Authorization': `Bearer ${HOSTAWAY_CONFIG.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        // Cache for 5 minutes to avoid hitting API too frequently
-        next: { revalidate: 300 },
-      }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      
-      // If the API returns results, use them
-      // Otherwise fall back to mock data (sandbox has no reviews)
-      if (data.result && data.result.length > 0) {
-        return data as HostawayApiResponse;
-      }
-    }
-  } catch (error) {
-    console.log('Hostaway API unavailable, using mock data:', error);
-  }
-
-  // Return mock data as fallback
-  // This simulates what the real API would return
-  return mockReviews as HostawayApiResponse;
-}
+import { buildReviewsResponse, filterReviews, sortReviews } from '@/lib/review-utils';
+import { getApprovedIdsSet } from '@/lib/approval-store';
+import { getReviews } from '@/lib/review-service';
+import { getReviewIssueKeys } from '@/lib/issues';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import { GooglePlacesApiError } from '@/lib/google-places-client';
+import { ConfigError, getConfig } from '@/lib/config';
+import {
+  parseReviewFilters,
+  parseReviewSort,
+  parsePageRequest,
+  paginate,
+  QueryValidationError,
+} from '@/lib/review-query';
+import type { NormalizedReviewsResponse } from '@/types/review';
 
 /**
  * GET handler for /api/reviews/hostaway
  */
 export async function GET(request: NextRequest) {
   try {
-    // Extract query parameters for filtering
+    // Extract and validate query parameters for filtering
     const { searchParams } = new URL(request.url);
-    const propertyId = searchParams.get('propertyId') || undefined;
-    const channel = searchParams.get('channel') || undefined;
-    const type = searchParams.get('type') as 'guest' | 'host' | 'all' | undefined;
-    const minRating = searchParams.get('minRating') 
-      ? parseFloat(searchParams.get('minRating')!) 
-      : undefined;
+    const filters = parseReviewFilters(searchParams);
+    const sort = parseReviewSort(searchParams);
+    const pageRequest = parsePageRequest(searchParams);
 
-    // Fetch raw reviews from Hostaway (or mock data)
-    const rawResponse = await fetchHostawayReviews();
+    // Load stored reviews, syncing from the data source if stale
+    const { reviews, source, rejected } = await getReviews();
 
-    // Normalize the response (approval status will be applied client-side)
-    const normalizedResponse = normalizeHostawayResponse(rawResponse, new Set());
+    // Apply the current approval state and tag issues
+    const approvedIds = await getApprovedIdsSet();
+    const normalizedResponse = buildReviewsResponse(
+      reviews.map(review => ({
+        ...review,
+        isApprovedForDisplay: approvedIds.has(review.id),
+        issues: getReviewIssueKeys(review),
+      }))
+    );
 
-    if (!normalizedResponse.success) {
-      return NextResponse.json(normalizedResponse, { status: 500 });
-    }
+    // Apply filters and sort
+    const filteredReviews = sortReviews(
+      filterReviews(normalizedResponse.reviews, filters),
+      sort
+    );
 
-    // Apply filters if provided
-    const filteredReviews = filterReviews(normalizedResponse.reviews, {
-      propertyId,
-      channel,
-      type,
-      minRating,
-    });
+    // Slice out the requested page (the full list when no paging was requested)
+    const page = pageRequest ? paginate(filteredReviews, pageRequest) : null;
+    const returnedReviews = page ? page.items : filteredReviews;
 
-    // Return filtered response
-    return NextResponse.json({
+    // Return filtered response with provenance
+    const body: NormalizedReviewsResponse = {
       ...normalizedResponse,
-      reviews: filteredReviews,
+      reviews: returnedReviews,
       meta: {
         ...normalizedResponse.meta,
         total: filteredReviews.length,
         unfilteredTotal: normalizedResponse.reviews.length,
+        source: {
+          ...source,
+          recordCounts: {
+            ...source.recordCounts,
+            returned: returnedReviews.length,
+          },
+        },
+        rejected,
+        ...(page && { pagination: page.pagination }),
+        rating: getConfig().rating,
       },
-    });
+    };
+
+    return NextResponse.json(body);
 
   } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error('Error fetching reviews:', error);
+
+    const isUpstreamError =
+      error instanceof HostawayApiError || error instanceof GooglePlacesApiError;
+    const isConfigError = error instanceof ConfigError;
     
     return NextResponse.json(
       {
@@ -131,11 +149,20 @@ export async function GET(request: NextRequest) {
           total: 0,
           properties: [],
           channels: [],
+          categories: [],
           dateRange: { earliest: '', latest: '' },
         },
-        error: 'Failed to fetch reviews. Please try again later.',
+        error: isUpstreamError
+          ? `${error instanceof HostawayApiError ? 'Hostaway' : 'Google Places'} API error: ${error.message}`
+          : isConfigError
+            ? error.message
+            : 'Failed to fetch reviews. Please try again later.',
+        ...(isUpstreamError && { errorCode: error.code }),
       },
-      { status: 500 }
+      { status: isUpstreamError ? 502 : 500 }
     );
   }
 }
+
+// Approval state changes at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
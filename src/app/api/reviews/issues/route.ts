@@ -0,0 +1,95 @@
+/**
+ * GET /api/reviews/issues
+ *
+ * Recurring issues in guest reviews for the dashboard's Issues tab: how many
+ * reviews mention each issue of the lexicon in `src/lib/issues.ts` (noise,
+ * Wi-Fi, hot water, check-in, ...), per property and per week, month or
+ * quarter, with example sentences, plus complaint phrases that recur but
+ * are not in the lexicon. Review text and private notes are both read.
+ *
+ * Query Parameters:
+ * - interval: week, month or quarter (default month); weeks start on Monday, UTC
+ * - Any filter accepted by `/api/reviews/hostaway` (propertyId, channel,
+ *   status, dateFrom, dateTo, approvedOnly, ...)
+ *
+ * Reviews mentioning an issue can be listed with
+ * `/api/reviews/hostaway?issue=<key>`.
+ * Invalid parameters are rejected with a 400 listing each problem.
+ *
+ * Response Structure:
+ * {
+ *   success: boolean,
+ *   interval,
+ *   periods: { start, label }[],
+ *   analysedReviews: number,         // guest reviews read
+ *   topIssues: {
+ *     key, label, reviewCount, share, averageRating,
+ *     byProperty: { propertyId, label, reviewCount, share }[],
+ *     buckets: { period, reviewCount }[],
+ *     examples: string[]
+ *   }[],
+ *   phrases: { phrase, reviewCount }[]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApprovedIdsSet } from '@/lib/approval-store';
+import { ConfigError } from '@/lib/config';
+import { GooglePlacesApiError } from '@/lib/google-places-client';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import { buildIssueReport } from '@/lib/issues';
+import {
+  parseIssueQuery,
+  parseReviewFilters,
+  QueryValidationError,
+} from '@/lib/review-query';
+import { getReviews } from '@/lib/review-service';
+import { filterReviews } from '@/lib/review-utils';
+import type { IssueReportResponse } from '@/types/issues';
+
+function respond(body: IssueReportResponse, status = 200) {
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseReviewFilters(searchParams);
+    const query = parseIssueQuery(searchParams);
+
+    // Load stored reviews with the current approval state
+    const [{ reviews }, approvedIds] = await Promise.all([getReviews(), getApprovedIdsSet()]);
+    const matching = filterReviews(
+      reviews.map(review => ({ ...review, isApprovedForDisplay: approvedIds.has(review.id) })),
+      filters
+    );
+
+    return respond({ success: true, ...buildIssueReport(matching, query) });
+
+  } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return respond({ success: false, error: error.message, issues: error.issues }, 400);
+    }
+
+    console.error('Error building issue report:', error);
+
+    const isUpstreamError =
+      error instanceof HostawayApiError || error instanceof GooglePlacesApiError;
+
+    return respond(
+      {
+        success: false,
+        error: isUpstreamError
+          ? `${error instanceof HostawayApiError ? 'Hostaway' : 'Google Places'} API error: ${error.message}`
+          : error instanceof ConfigError
+            ? error.message
+            : 'Failed to load review issues',
+        ...(isUpstreamError && { errorCode: error.code }),
+      },
+      isUpstreamError ? 502 : 500
+    );
+  }
+}
+
+// Reviews and approval state change at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,43 @@
+/**
+ * GET /api/reviews/quarantine
+ *
+ * Lists upstream records that failed validation during sync and were not
+ * imported, with the reasons, most recently seen first. Records leave the
+ * quarantine once a later sync receives them in a valid form.
+ */
+
+import { NextResponse } from 'next/server';
+import { readReviewStore } from '@/lib/review-store';
+import { getEnabledReviewSources } from '@/lib/sources';
+import { ConfigError, getConfig } from '@/lib/config';
+
+export async function GET() {
+  try {
+    const snapshot = await readReviewStore();
+    const enabledIds = new Set(getEnabledReviewSources(getConfig()).map(source => source.id));
+
+    const records = Object.values(snapshot.quarantine)
+      .filter(record => enabledIds.has(record.source))
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+
+    return NextResponse.json({
+      success: true,
+      total: records.length,
+      records,
+    });
+
+  } catch (error) {
+    console.error('Error reading quarantined records:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof ConfigError ? error.message : 'Failed to read quarantined records',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Quarantine changes with every sync, never serve a cached response
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,82 @@
+/**
+ * GET /api/reviews/summary
+ *
+ * Aggregates for the manager dashboard, computed over every stored review
+ * so the dashboard only has to page through the review list itself:
+ * portfolio stats, each property's performance and ratings by stay.
+ * Counts cover every guest review, approved or not; ratings and the property
+ * ranking come from the rating calculator.
+ *
+ * Response Structure:
+ * {
+ *   success: boolean,
+ *   stats: { totalReviews, approvedCount, fiveStarCount, lowRatingCount },
+ *   publicRating: RatingResult,       // portfolio rating as public pages calculate it
+ *   properties: PropertyPerformance[], // highest rating first, unrated last
+ *   stays: StayInsights,
+ *   meta: { total, properties, channels, categories, dateRange, source, rejected, rating }
+ * }
+ */
+
+import { NextResponse } from 'next/server';
+import { getApprovedIdsSet } from '@/lib/approval-store';
+import { ConfigError, getConfig } from '@/lib/config';
+import { buildDashboardSummary } from '@/lib/dashboard-summary';
+import { GooglePlacesApiError } from '@/lib/google-places-client';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import { getReviews } from '@/lib/review-service';
+import { buildReviewsResponse } from '@/lib/review-utils';
+import type { DashboardSummaryResponse } from '@/types/dashboard';
+
+function respond(body: DashboardSummaryResponse, status = 200) {
+  return NextResponse.json(body, { status });
+}
+
+export async function GET() {
+  try {
+    // Load stored reviews with the current approval state
+    const [{ reviews, source, rejected }, approvedIds] = await Promise.all([
+      getReviews(),
+      getApprovedIdsSet(),
+    ]);
+    const { reviews: normalized, meta } = buildReviewsResponse(
+      reviews.map(review => ({ ...review, isApprovedForDisplay: approvedIds.has(review.id) }))
+    );
+    const rating = getConfig().rating;
+
+    const summary = buildDashboardSummary(
+      normalized,
+      {
+        ...meta,
+        source: { ...source, recordCounts: { ...source.recordCounts, returned: 0 } },
+        rejected,
+        rating,
+      },
+      rating
+    );
+
+    return respond({ success: true, ...summary });
+
+  } catch (error) {
+    console.error('Error building dashboard summary:', error);
+
+    const isUpstreamError =
+      error instanceof HostawayApiError || error instanceof GooglePlacesApiError;
+
+    return respond(
+      {
+        success: false,
+        error: isUpstreamError
+          ? `${error instanceof HostawayApiError ? 'Hostaway' : 'Google Places'} API error: ${error.message}`
+          : error instanceof ConfigError
+            ? error.message
+            : 'Failed to load dashboard summary',
+        ...(isUpstreamError && { errorCode: error.code }),
+      },
+      isUpstreamError ? 502 : 500
+    );
+  }
+}
+
+// Reviews and approval state change at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
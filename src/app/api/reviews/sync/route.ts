@@ -0,0 +1,116 @@
+/**
+ * POST /api/reviews/sync
+ *
+ * Syncs reviews from the configured data source into the local review store.
+ * Body (optional): { full?: boolean }
+ * - Incremental (default): stores reviews newer than the watermark
+ * - Full: refreshes every review and flags those removed upstream
+ *
+ * Like the other manager endpoints this is not authenticated yet, so anyone
+ * who can reach the app can trigger a (full) upstream sync.
+ *
+ * GET /api/reviews/sync
+ *
+ * Returns the review store status: stored and removed review counts,
+ * each registered source with its watermark, the last (successful) sync and
+ * when the last complete full sync started.
+ * Individual source failures are reported in `sync.sources`; the request
+ * only fails when no source could be synced.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { syncReviews } from '@/lib/review-sync';
+import { readReviewStore } from '@/lib/review-store';
+import { getRegisteredReviewSources, getEnabledReviewSources } from '@/lib/sources';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import { GooglePlacesApiError } from '@/lib/google-places-client';
+import { ConfigError, getConfig } from '@/lib/config';
+
+export async function POST(request: NextRequest) {
+  try {
+    // An empty body means an incremental sync
+    const text = await request.text();
+    const body: unknown = text ? JSON.parse(text) : {};
+
+    if (
+      typeof body !== 'object' || body === null || Array.isArray(body) ||
+      ('full' in body && body.full !== undefined && typeof body.full !== 'boolean')
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const sync = await syncReviews({ full: 'full' in body && body.full === true });
+
+    return NextResponse.json({ success: true, sync });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error syncing reviews:', error);
+
+    const isUpstreamError =
+      error instanceof HostawayApiError || error instanceof GooglePlacesApiError;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: isUpstreamError
+          ? `${error instanceof HostawayApiError ? 'Hostaway' : 'Google Places'} API error: ${error.message}`
+          : error instanceof ConfigError
+            ? error.message
+            : 'Review sync failed',
+        ...(isUpstreamError && { errorCode: error.code }),
+      },
+      { status: isUpstreamError ? 502 : 500 }
+    );
+  }
+}
+
+/**
+ * GET handler for /api/reviews/sync
+ */
+export async function GET() {
+  try {
+    const snapshot = await readReviewStore();
+    const stored = Object.values(snapshot.reviews);
+    const enabledIds = new Set(getEnabledReviewSources(getConfig()).map(source => source.id));
+
+    return NextResponse.json({
+      success: true,
+      storedReviews: stored.length,
+      removedUpstream: stored.filter(review => review.removedUpstreamAt).length,
+      sources: getRegisteredReviewSources().map(source => ({
+        id: source.id,
+        displayName: source.displayName,
+        enabled: enabledIds.has(source.id),
+        storedReviews: stored.filter(review => review.source === source.id).length,
+        watermark: snapshot.watermarks[source.id] ?? null,
+      })),
+      lastSync: snapshot.lastSync,
+      lastSuccessfulSync: snapshot.lastSuccessfulSync,
+      lastFullSyncAt: snapshot.lastFullSyncAt ?? null,
+    });
+
+  } catch (error) {
+    console.error('Error reading review store:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof ConfigError ? error.message : 'Failed to read review store',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Store state changes at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
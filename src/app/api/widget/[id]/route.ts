@@ -0,0 +1,79 @@
+/**
+ * GET /api/widget/[id]
+ *
+ * Headless variant of the embeddable reviews widget: a property's approved
+ * guest reviews as JSON, for sites that render reviews themselves. Returns
+ * the same reviews as the iframe widget (`/embed/[id]`) and the public
+ * property page. Responses can be read cross-origin.
+ *
+ * Query Parameters:
+ * - theme: light or dark (echoed in `options`, for clients that follow it)
+ * - maxReviews: Most reviews to return, newest first (1-20, default 3)
+ * - minRating: Lowest overall rating to include (0-5, default 0)
+ *
+ * Response Structure:
+ * {
+ *   success: boolean,
+ *   property: { id, name, city, url },
+ *   rating: { value, count },        // displayed rating, null until rated
+ *   reviews: NormalizedReview[],     // without private notes or stay details
+ *   options: WidgetOptions
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigError } from '@/lib/config';
+import { GooglePlacesApiError } from '@/lib/google-places-client';
+import { HostawayApiError } from '@/lib/hostaway-client';
+import { QueryValidationError } from '@/lib/review-query';
+import { getWidgetData, parseWidgetOptions } from '@/lib/widget';
+import type { WidgetResponse } from '@/types/widget';
+
+// The widget is embedded on other sites
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*' };
+
+function respond(body: WidgetResponse, status = 200) {
+  return NextResponse.json(body, { status, headers: CORS_HEADERS });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const options = parseWidgetOptions(new URL(request.url).searchParams);
+    const data = await getWidgetData(params.id, options);
+
+    if (!data) {
+      return respond({ success: false, error: 'Property not found' }, 404);
+    }
+
+    return respond({ success: true, ...data });
+
+  } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return respond({ success: false, error: error.message, issues: error.issues }, 400);
+    }
+
+    console.error('Error in widget endpoint:', error);
+
+    const isUpstreamError =
+      error instanceof HostawayApiError || error instanceof GooglePlacesApiError;
+
+    return respond(
+      {
+        success: false,
+        error: isUpstreamError
+          ? `${error instanceof HostawayApiError ? 'Hostaway' : 'Google Places'} API error: ${error.message}`
+          : error instanceof ConfigError
+            ? error.message
+            : 'Failed to load reviews',
+        ...(isUpstreamError && { errorCode: error.code }),
+      },
+      isUpstreamError ? 502 : 500
+    );
+  }
+}
+
+// Approval state changes at runtime, never serve a cached response
+export const dynamic = 'force-dynamic';
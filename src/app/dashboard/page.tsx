@@ -9,7 +9,7 @@
  * - Select which reviews to display publicly
  */
 
-import { useEffect, useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -17,122 +17,44 @@ import { ReviewCard } from '@/components/reviews/ReviewCard';
 import { PropertyCard } from '@/components/dashboard/PropertyCard';
 import { FilterBar } from '@/components/dashboard/FilterBar';
 import { StatsOverview } from '@/components/dashboard/StatsOverview';
-import { calculatePropertyPerformance } from '@/lib/review-utils';
-import { getApprovedIdsSet, initializeApprovals } from '@/lib/approval-store';
-import type { 
-  NormalizedReview, 
-  NormalizedReviewsResponse, 
-  PropertyInfo, 
-  PropertyPerformance,
-  ReviewFilters,
-  ReviewSort 
-} from '@/types/review';
+import { DataSourceBanner } from '@/components/dashboard/DataSourceBanner';
+import { LoadMore } from '@/components/dashboard/LoadMore';
+import { QuarantinePanel } from '@/components/dashboard/QuarantinePanel';
+import { StayInsights } from '@/components/dashboard/StayInsights';
+import { TrendsPanel } from '@/components/dashboard/TrendsPanel';
+import { TopIssuesPanel } from '@/components/dashboard/TopIssuesPanel';
+import { useDashboardSummary } from '@/hooks/useDashboardSummary';
+import { usePagedReviews } from '@/hooks/usePagedReviews';
+import type { ReviewFilters, ReviewSort } from '@/types/review';
 
 export default function DashboardPage() {
-  const [reviews, setReviews] = useState<NormalizedReview[]>([]);
-  const [properties, setProperties] = useState<PropertyInfo[]>([]);
-  const [channels, setChannels] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Stats, property cards and stay insights are aggregated server-side;
+  // only the review list is loaded, a page at a time
+  const { summary, error, reload: reloadSummary } = useDashboardSummary();
 
   // Filter and sort state
   const [filters, setFilters] = useState<ReviewFilters>({ type: 'all' });
   const [sort, setSort] = useState<ReviewSort>({ field: 'date', order: 'desc' });
   const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('reviews');
 
-  // Fetch reviews and apply localStorage approvals
-  useEffect(() => {
-    async function fetchReviews() {
-      try {
-        // Initialize localStorage with defaults if needed
-        initializeApprovals();
+  // Review list is filtered, sorted and paged server-side. The reviews tab
+  // uses the filter bar's property; the properties tab lists the reviews of
+  // the selected property card instead.
+  const listFilters = useMemo<ReviewFilters>(() => (
+    activeTab === 'properties'
+      ? { ...filters, propertyId: selectedPropertyId ?? undefined }
+      : filters
+  ), [activeTab, filters, selectedPropertyId]);
 
-        const response = await fetch('/api/reviews/hostaway');
-        const data: NormalizedReviewsResponse = await response.json();
+  const reviewList = usePagedReviews(listFilters, sort);
+  const { updateReview } = reviewList;
 
-        if (data.success) {
-          // Get approved IDs from localStorage
-          const approvedIds = getApprovedIdsSet();
-          
-          // Apply approval status from localStorage
-          const reviewsWithApproval = data.reviews.map(review => ({
-            ...review,
-            isApprovedForDisplay: approvedIds.has(review.id),
-          }));
-
-          setReviews(reviewsWithApproval);
-          setProperties(data.meta.properties);
-          setChannels(data.meta.channels);
-        } else {
-          setError(data.error || 'Failed to load reviews');
-        }
-      } catch {
-        setError('Failed to connect to server');
-      } finally {
-        setIsLoading(false);
-      }
-    }
-
-    fetchReviews();
-  }, []);
-
-  // Calculate property performance
-  const propertyPerformance = useMemo<PropertyPerformance[]>(() => {
-    return properties.map(property => 
-      calculatePropertyPerformance(reviews, property)
-    );
-  }, [reviews, properties]);
-
-  // Filter and sort reviews
-  const filteredReviews = useMemo(() => {
-    let result = [...reviews];
-
-    // Apply filters
-    if (filters.propertyId || selectedPropertyId) {
-      result = result.filter(r => r.propertyId === (filters.propertyId || selectedPropertyId));
-    }
-    if (filters.channel) {
-      result = result.filter(r => r.channel === filters.channel);
-    }
-    if (filters.minRating) {
-      result = result.filter(r => r.overallRating >= filters.minRating!);
-    }
-    if (filters.type && filters.type !== 'all') {
-      result = result.filter(r => r.type === filters.type);
-    }
-    if (filters.approvedOnly) {
-      result = result.filter(r => r.isApprovedForDisplay);
-    }
-
-    // Apply sort
-    result.sort((a, b) => {
-      let comparison = 0;
-      switch (sort.field) {
-        case 'date':
-          comparison = new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime();
-          break;
-        case 'rating':
-          comparison = a.overallRating - b.overallRating;
-          break;
-        case 'property':
-          comparison = a.property.name.localeCompare(b.property.name);
-          break;
-        case 'channel':
-          comparison = a.channel.localeCompare(b.channel);
-          break;
-      }
-      return sort.order === 'desc' ? -comparison : comparison;
-    });
-
-    return result;
-  }, [reviews, filters, sort, selectedPropertyId]);
-
-  // Handle approval change - update local state
+  // Handle approval change - update the list and refresh the stats
   const handleApprovalChange = useCallback((reviewId: string, approved: boolean) => {
-    setReviews(prev => prev.map(r => 
-      r.id === reviewId ? { ...r, isApprovedForDisplay: approved } : r
-    ));
-  }, []);
+    updateReview(reviewId, { isApprovedForDisplay: approved });
+    reloadSummary();
+  }, [updateReview, reloadSummary]);
 
   // Reset filters
   const resetFilters = useCallback(() => {
@@ -141,28 +63,31 @@ export default function DashboardPage() {
     setSelectedPropertyId(null);
   }, []);
 
-  if (isLoading) {
+  if (error && !summary) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center space-y-4">
-          <div className="w-12 h-12 border-4 border-primary/30 border-t-primary rounded-full animate-spin mx-auto" />
-          <p className="text-muted-foreground">Loading reviews...</p>
+          <p className="text-red-500">{error}</p>
+          <Button onClick={() => window.location.reload()}>Retry</Button>
         </div>
       </div>
     );
   }
 
-  if (error) {
+  if (!summary) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center space-y-4">
-          <p className="text-red-500">{error}</p>
-          <Button onClick={() => window.location.reload()}>Retry</Button>
+          <div className="w-12 h-12 border-4 border-primary/30 border-t-primary rounded-full animate-spin mx-auto" />
+          <p className="text-muted-foreground">Loading reviews...</p>
         </div>
       </div>
     );
   }
 
+  const { stats, publicRating, properties: propertyPerformance, stays, meta } = summary;
+  const { properties, channels, categories, source: dataSource, rejected } = meta;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -188,19 +113,31 @@ export default function DashboardPage() {
             </Link>
           </div>
         </div>
+        <DataSourceBanner source={dataSource} />
       </header>
 
       <main className="container mx-auto px-4 py-8 space-y-8">
         {/* Stats Overview */}
         <section>
-          <StatsOverview reviews={reviews} properties={properties} />
+          <StatsOverview stats={stats} propertyCount={properties.length} publicRating={publicRating} />
         </section>
 
         {/* Main Content */}
-        <Tabs defaultValue="reviews" className="space-y-6">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <TabsList>
             <TabsTrigger value="reviews">All Reviews</TabsTrigger>
             <TabsTrigger value="properties">By Property</TabsTrigger>
+            <TabsTrigger value="trends">Trends</TabsTrigger>
+            <TabsTrigger value="issues">Issues</TabsTrigger>
+            <TabsTrigger value="stays">Stays</TabsTrigger>
+            {rejected && rejected.total > 0 && (
+              <TabsTrigger value="quarantine" className="gap-1.5">
+                Data Issues
+                <span className="rounded-full bg-amber-100 px-1.5 text-xs text-amber-800">
+                  {rejected.total}
+                </span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Reviews Tab */}
@@ -209,6 +146,7 @@ export default function DashboardPage() {
             <FilterBar
               properties={properties}
               channels={channels}
+              categories={categories}
               filters={filters}
               sort={sort}
               onFiltersChange={setFilters}
@@ -219,18 +157,23 @@ export default function DashboardPage() {
             {/* Reviews Count */}
             <div className="flex items-center justify-between">
               <p className="text-sm text-muted-foreground">
-                Showing {filteredReviews.length} of {reviews.length} reviews
+                Showing {reviewList.reviews.length} of {reviewList.total} matching reviews
+                {' '}({meta.total} total)
               </p>
             </div>
 
             {/* Reviews List */}
             <div className="grid gap-4">
-              {filteredReviews.length === 0 ? (
+              {reviewList.error ? (
+                <div className="text-center py-12 text-red-500">
+                  {reviewList.error}
+                </div>
+              ) : reviewList.reviews.length === 0 && !reviewList.isLoading ? (
                 <div className="text-center py-12 text-muted-foreground">
                   No reviews match your filters
                 </div>
               ) : (
-                filteredReviews.map((review, index) => (
+                reviewList.reviews.map((review, index) => (
                   <div 
                     key={review.id} 
                     className="animate-fade-in"
@@ -246,6 +189,12 @@ export default function DashboardPage() {
                 ))
               )}
             </div>
+
+            <LoadMore
+              isLoading={reviewList.isLoading}
+              hasMore={reviewList.hasMore}
+              onLoadMore={reviewList.loadMore}
+            />
           </TabsContent>
 
           {/* Properties Tab */}
@@ -288,7 +237,7 @@ export default function DashboardPage() {
                   </Button>
                 </div>
                 <div className="grid gap-4">
-                  {filteredReviews.map((review) => (
+                  {reviewList.reviews.map((review) => (
                     <ReviewCard
                       key={review.id}
                       review={review}
@@ -298,9 +247,36 @@ export default function DashboardPage() {
                     />
                   ))}
                 </div>
+                <LoadMore
+                  isLoading={reviewList.isLoading}
+                  hasMore={reviewList.hasMore}
+                  onLoadMore={reviewList.loadMore}
+                />
               </div>
             )}
           </TabsContent>
+
+          {/* Trends Tab */}
+          <TabsContent value="trends">
+            <TrendsPanel properties={properties} />
+          </TabsContent>
+
+          {/* Issues Tab */}
+          <TabsContent value="issues">
+            <TopIssuesPanel properties={properties} onApprovalChange={handleApprovalChange} />
+          </TabsContent>
+
+          {/* Stays Tab */}
+          <TabsContent value="stays">
+            <StayInsights insights={stays} />
+          </TabsContent>
+
+          {/* Quarantine Tab */}
+          {rejected && rejected.total > 0 && (
+            <TabsContent value="quarantine">
+              <QuarantinePanel />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
     </div>
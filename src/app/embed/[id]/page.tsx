@@ -0,0 +1,68 @@
+/**
+ * Embeddable Reviews Widget
+ *
+ * Iframe-friendly page showing a property's approved guest reviews on
+ * external sites. Usually added through the script loader:
+ *
+ *   <div data-flex-living-reviews data-property-id="1001"
+ *        data-theme="dark" data-max-reviews="3" data-min-rating="4"></div>
+ *   <script src="https://<site>/widget.js" async></script>
+ *
+ * It can also be framed directly: `/embed/1001?theme=dark&maxReviews=3&minRating=4`.
+ * The same data is available as JSON from `/api/widget/[id]`.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { FrameResizer } from '@/components/widget/FrameResizer';
+import { ReviewsWidget } from '@/components/widget/ReviewsWidget';
+import { QueryValidationError } from '@/lib/review-query';
+import { getWidgetData, parseWidgetOptions } from '@/lib/widget';
+
+interface EmbedPageProps {
+  params: { id: string };
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+export const metadata: Metadata = {
+  title: 'Guest Reviews | Flex Living',
+  // Widget frames duplicate the property page's content
+  robots: { index: false },
+};
+
+/**
+ * Convert Next.js search params to URLSearchParams (first value of repeats)
+ */
+function toSearchParams(searchParams: EmbedPageProps['searchParams']): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(searchParams).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) params.set(key, first);
+  });
+  return params;
+}
+
+export default async function EmbedPage({ params, searchParams }: EmbedPageProps) {
+  let options;
+  try {
+    options = parseWidgetOptions(toSearchParams(searchParams));
+  } catch (error) {
+    if (!(error instanceof QueryValidationError)) throw error;
+    return (
+      <p className="p-4 text-sm text-red-500">
+        Invalid widget settings: {error.issues.join('; ')}
+      </p>
+    );
+  }
+
+  const data = await getWidgetData(params.id, options);
+  if (!data) {
+    notFound();
+  }
+
+  return (
+    <FrameResizer>
+      <ReviewsWidget data={data} />
+    </FrameResizer>
+  );
+}
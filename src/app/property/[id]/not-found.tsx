@@ -0,0 +1,21 @@
+/**
+ * Property Not Found
+ *
+ * Shown when a property ID is not in the property catalog.
+ */
+
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+
+export default function PropertyNotFound() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#FBFAF9]">
+      <div className="text-center">
+        <h1 className="text-2xl font-semibold text-[#323927] mb-4">Property not found</h1>
+        <Link href="/">
+          <Button>Go Home</Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
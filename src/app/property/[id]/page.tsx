@@ -1,139 +1,138 @@
-'use client';
-
 /**
  * Property Review Display Page
  * 
  * Public-facing page that displays approved reviews for a specific property.
  * Styled to match the Flex Living website design.
  * 
- * Uses localStorage to read approved reviews (client-side persistence for demo).
+ * Rendered on the server with the property from the catalog and the reviews
+ * approved in the server-side approval store, so the reviews and aggregate
+ * rating are in the HTML. Pages are cached and revalidated when an approval
+ * changes (see `src/lib/public-reviews.ts`). The first page of reviews is
+ * rendered with the page; sorting, filtering, search and further pages use
+ * `/api/properties/[id]/reviews`.
+ *
+ * The rating breakdown (star distribution and category averages), the
+ * page's metadata (canonical URL, Open Graph image) and its schema.org
+ * JSON-LD are all built from the same approved reviews. The headline
+ * rating comes from the configured rating method, which is disclosed on
+ * the page; the JSON-LD aggregate stays the plain average of the reviews
+ * it marks up, as search engines expect.
  */
 
-import { useEffect, useState } from 'react';
+import { cache } from 'react';
+import type { Metadata } from 'next';
 import Link from 'next/link';
 import Image from 'next/image';
-import { useParams } from 'next/navigation';
+import { notFound } from 'next/navigation';
 import { StarRating } from '@/components/reviews/StarRating';
-import { ChannelBadge } from '@/components/reviews/ChannelBadge';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { PropertyReviews } from '@/components/reviews/PropertyReviews';
+import { RatingBreakdown } from '@/components/reviews/RatingBreakdown';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { getApprovedIdsSet, initializeApprovals } from '@/lib/approval-store';
-import type { NormalizedReview, NormalizedReviewsResponse } from '@/types/review';
+import { getConfig } from '@/lib/config';
+import { getProperties } from '@/lib/property-catalog';
+import { getApprovedPropertyReviews, getPropertyRating } from '@/lib/public-reviews';
+import { describeRatingMethod } from '@/lib/rating';
+import { paginate } from '@/lib/review-query';
+import { buildReviewsResponse, calculatePropertyPerformance } from '@/lib/review-utils';
+import {
+  buildPropertyJsonLd,
+  getPropertyUrl,
+  serializeJsonLd,
+  toAbsoluteUrl,
+} from '@/lib/structured-data';
 
-// Property details (in a real app, this would come from a database)
-const propertyDetails: Record<string, {
-  name: string;
-  location: string;
-  description: string;
-  amenities: string[];
-  image: string;
-  guests: number;
-  bedrooms: number;
-  bathrooms: number;
-}> = {
-  '1001': {
-    name: '2B Shoreditch Heights - Modern Loft',
-    location: 'Shoreditch, London',
-    description: 'Experience the vibrant energy of Shoreditch in this stunning modern loft. Floor-to-ceiling windows flood the space with natural light, while the industrial-chic design creates a perfect blend of comfort and style. Walking distance to the best cafes, galleries, and nightlife in East London.',
-    amenities: ['WiFi', 'Kitchen', 'Washer', 'Air conditioning', 'Workspace', 'Rooftop access'],
-    image: '/apartmentImages/Apartment1.jpg',
-    guests: 4,
-    bedrooms: 2,
-    bathrooms: 1,
-  },
-  '1002': {
-    name: 'Le Marais Studio - Charming Hideaway',
-    location: 'Le Marais, Paris',
-    description: 'A quintessential Parisian apartment nestled in the heart of Le Marais. Original hardwood floors, exposed beams, and French windows opening onto a quiet courtyard. Steps away from historic Place des Vosges and the best boutiques in Paris.',
-    amenities: ['WiFi', 'Kitchen', 'Heating', 'Courtyard view', 'Coffee maker'],
-    image: '/apartmentImages/Apartment2.jpg',
-    guests: 2,
-    bedrooms: 1,
-    bathrooms: 1,
-  },
-  '1003': {
-    name: 'Gothic Quarter Retreat - 1BR',
-    location: 'Gothic Quarter, Barcelona',
-    description: 'Discover Barcelona from this charming apartment in the historic Gothic Quarter. Ancient stone walls meet modern amenities, just minutes from the beach and the famous La Rambla. Perfect for couples seeking romance and adventure.',
-    amenities: ['WiFi', 'Kitchen', 'Air conditioning', 'Beach nearby', 'Balcony'],
-    image: '/apartmentImages/Apartment3.jpg',
-    guests: 2,
-    bedrooms: 1,
-    bathrooms: 1,
-  },
-  '1004': {
-    name: 'Kreuzberg Loft - Industrial Chic',
-    location: 'Kreuzberg, Berlin',
-    description: 'An authentic Berlin experience in the heart of creative Kreuzberg. High ceilings, exposed brick, and minimalist design create the perfect space for digital nomads and urban explorers. Surrounded by the best street food, clubs, and galleries in the city.',
-    amenities: ['WiFi', 'Kitchen', 'Washer', 'Heating', 'Workspace', 'Bike rental'],
-    image: '/apartmentImages/Apartment4.jpg',
-    guests: 3,
-    bedrooms: 1,
-    bathrooms: 1,
-  },
-};
+// Reviews rendered with the page; guests load the rest from the public endpoint
+const REVIEWS_PAGE_SIZE = 10;
 
-export default function PropertyPage() {
-  const params = useParams();
-  const id = params.id as string;
-  
-  const [reviews, setReviews] = useState<NormalizedReview[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+interface PropertyPageProps {
+  params: { id: string };
+}
 
-  const property = propertyDetails[id];
+/**
+ * Load the property, the rest of the catalog, its approved reviews and rating
+ * Shared by the page and its metadata within a render.
+ */
+const loadPropertyPage = cache(async (id: string) => {
+  const properties = await getProperties();
+  const property = properties.find(candidate => candidate.id === id);
+  if (!property) return null;
 
-  // Fetch reviews and filter by approved status from localStorage
-  useEffect(() => {
-    async function loadReviews() {
-      try {
-        // Initialize localStorage with defaults if needed
-        initializeApprovals();
+  return {
+    property,
+    otherProperties: properties.filter(other => other.id !== id),
+    reviews: await getApprovedPropertyReviews(id),
+    rating: await getPropertyRating(id),
+  };
+});
 
-        const response = await fetch(`/api/reviews/hostaway?propertyId=${id}&type=guest`);
-        const data: NormalizedReviewsResponse = await response.json();
+/**
+ * Title, description, canonical URL and Open Graph image for a property
+ */
+export async function generateMetadata({ params }: PropertyPageProps): Promise<Metadata> {
+  const data = await loadPropertyPage(params.id);
+  if (!data) return { title: 'Property not found | Flex Living' };
 
-        if (data.success) {
-          // Get approved IDs from localStorage
-          const approvedIds = getApprovedIdsSet();
-          
-          // Filter to only approved reviews
-          const approvedReviews = data.reviews.filter(r => approvedIds.has(r.id));
-          setReviews(approvedReviews);
-        }
-      } catch (error) {
-        console.error('Error loading reviews:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    }
+  const { property, rating } = data;
+  const { siteUrl } = getConfig();
+  const title = `${property.name} | Flex Living`;
+  const description = [
+    rating.value !== null &&
+      `Rated ${rating.value.toFixed(1)}/5 from ${rating.reviewCount} guest review${rating.reviewCount !== 1 ? 's' : ''}.`,
+    property.description,
+  ].filter(Boolean).join(' ');
+  const url = getPropertyUrl(property, siteUrl);
+  const image = property.images[0];
 
-    if (id) {
-      loadReviews();
-    }
-  }, [id]);
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'website',
+      siteName: 'Flex Living',
+      title,
+      description,
+      url,
+      ...(image && { images: [{ url: toAbsoluteUrl(image, siteUrl), alt: property.name }] }),
+    },
+    twitter: {
+      card: image ? 'summary_large_image' : 'summary',
+      title,
+      description,
+    },
+  };
+}
 
-  // Handle 404
-  if (!property) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-[#FBFAF9]">
-        <div className="text-center">
-          <h1 className="text-2xl font-semibold text-[#323927] mb-4">Property not found</h1>
-          <Link href="/">
-            <Button>Go Home</Button>
-          </Link>
-        </div>
-      </div>
-    );
+export default async function PropertyPage({ params }: PropertyPageProps) {
+  const data = await loadPropertyPage(params.id);
+
+  if (!data) {
+    notFound();
   }
 
-  // Calculate average rating
-  const averageRating = reviews.length > 0
-    ? reviews.reduce((sum, r) => sum + r.overallRating, 0) / reviews.length
-    : 0;
+  const { property, otherProperties, reviews, rating } = data;
+  const jsonLd = buildPropertyJsonLd(property, reviews, getConfig().siteUrl);
+  const firstPage = paginate(reviews, { offset: 0, pageSize: REVIEWS_PAGE_SIZE });
+
+  // Star distribution and category averages of the approved reviews
+  const performance = calculatePropertyPerformance(reviews, {
+    id: property.id,
+    name: property.name,
+    shortName: property.shortName,
+    location: property.location,
+    city: property.city,
+  });
+  const { categories } = buildReviewsResponse(reviews).meta;
 
   return (
     <div className="min-h-screen bg-[#FBFAF9]">
+      {/* schema.org structured data for rich results */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }}
+      />
+
       {/* Header - Flex Living Style */}
       <header className="bg-[#323927] text-white">
         <div className="container mx-auto px-4 py-4">
@@ -162,6 +161,8 @@ export default function PropertyPage() {
             <div className="flex items-center gap-2 text-sm text-white/70 mb-4">
               <Link href="/" className="hover:text-white">Home</Link>
               <span>/</span>
+              <span>{property.city}</span>
+              <span>/</span>
               <span>{property.location}</span>
             </div>
             
@@ -177,14 +178,14 @@ export default function PropertyPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
                     </svg>
-                    <span>{property.location}</span>
+                    <span>{property.location}, {property.city}</span>
                   </div>
                   
-                  {reviews.length > 0 && (
+                  {rating.value !== null && (
                     <div className="flex items-center gap-2">
-                      <StarRating rating={averageRating} size="sm" />
-                      <span className="font-medium">{averageRating.toFixed(1)}</span>
-                      <span className="text-white/70">({reviews.length} reviews)</span>
+                      <StarRating rating={rating.value} size="sm" />
+                      <span className="font-medium">{rating.value.toFixed(1)}</span>
+                      <span className="text-white/70">({rating.reviewCount} reviews)</span>
                     </div>
                   )}
                 </div>
@@ -198,33 +199,41 @@ export default function PropertyPage() {
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                     </svg>
-                    <span>{property.guests} guests</span>
+                    <span>{property.capacity.guests} guests</span>
                   </div>
                   <div className="flex items-center gap-2 px-3 py-2 bg-white/10 rounded-lg">
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
                     </svg>
-                    <span>{property.bedrooms} bedroom{property.bedrooms > 1 ? 's' : ''}</span>
+                    <span>
+                      {property.capacity.bedrooms} bedroom{property.capacity.bedrooms !== 1 ? 's' : ''}
+                    </span>
                   </div>
                   <div className="flex items-center gap-2 px-3 py-2 bg-white/10 rounded-lg">
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 14v3m4-3v3m4-3v3M3 21h18M3 10h18M3 7l9-4 9 4M4 10h16v11H4V10z" />
                     </svg>
-                    <span>{property.bathrooms} bathroom{property.bathrooms > 1 ? 's' : ''}</span>
+                    <span>
+                      {property.capacity.bathrooms} bathroom{property.capacity.bathrooms !== 1 ? 's' : ''}
+                    </span>
                   </div>
                 </div>
               </div>
 
               {/* Property Image */}
               <div className="relative aspect-[4/3] rounded-2xl overflow-hidden bg-gradient-to-br from-white/10 to-white/5">
-                <Image
-                  src={property.image}
-                  alt={property.name}
-                  fill
-                  className="object-cover"
-                  priority
-                  sizes="(max-width: 768px) 100vw, 50vw"
-                />
+                {property.images.length > 0 && (
+                  <Image
+                    src={property.images[0]}
+                    alt={property.name}
+                    fill
+                    className="object-cover"
+                    priority
+                    // Photos synced from Hostaway are served from its CDN
+                    unoptimized={!property.images[0].startsWith('/')}
+                    sizes="(max-width: 768px) 100vw, 50vw"
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -256,28 +265,34 @@ export default function PropertyPage() {
                 <h2 className="text-2xl md:text-3xl font-semibold text-[#323927] mb-2">
                   Guest Reviews
                 </h2>
-                {reviews.length > 0 && (
+                {rating.value !== null ? (
                   <div className="flex items-center gap-3">
                     <div className="flex items-center gap-2">
                       <span className="text-3xl font-bold text-[#323927]">
-                        {averageRating.toFixed(1)}
+                        {rating.value.toFixed(1)}
                       </span>
-                      <StarRating rating={averageRating} size="lg" />
+                      <StarRating rating={rating.value} size="lg" />
                     </div>
                     <span className="text-muted-foreground">
-                      Based on {reviews.length} verified review{reviews.length !== 1 ? 's' : ''}
+                      Based on {rating.reviewCount} verified review{rating.reviewCount !== 1 ? 's' : ''}
                     </span>
                   </div>
+                ) : reviews.length > 0 && (
+                  <p className="text-muted-foreground">
+                    Not enough reviews to rate this property yet
+                  </p>
+                )}
+                {(reviews.length > 0 || rating.value !== null) && (
+                  <details className="mt-3 text-sm text-muted-foreground">
+                    <summary className="cursor-pointer w-fit hover:text-[#323927]">
+                      How we calculate this
+                    </summary>
+                    <p className="mt-2 max-w-2xl">{describeRatingMethod(rating)}</p>
+                  </details>
                 )}
               </div>
 
-              {/* Loading State */}
-              {isLoading ? (
-                <div className="text-center py-12 bg-[#F5F3EF] rounded-2xl">
-                  <div className="w-8 h-8 border-4 border-[#D4F872]/30 border-t-[#D4F872] rounded-full animate-spin mx-auto mb-4" />
-                  <p className="text-muted-foreground">Loading reviews...</p>
-                </div>
-              ) : reviews.length === 0 ? (
+              {reviews.length === 0 ? (
                 <div className="text-center py-12 bg-[#F5F3EF] rounded-2xl">
                   <svg className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
@@ -285,66 +300,17 @@ export default function PropertyPage() {
                   <p className="text-muted-foreground">No reviews yet for this property</p>
                 </div>
               ) : (
-                <div className="space-y-6">
-                  {reviews.map((review, index) => (
-                    <article 
-                      key={review.id} 
-                      className="p-6 bg-white rounded-2xl border border-[#CECEC7]/50 shadow-sm animate-fade-in"
-                      style={{ animationDelay: `${index * 100}ms` }}
-                    >
-                      {/* Review Header */}
-                      <div className="flex items-start justify-between gap-4 mb-4">
-                        <div className="flex items-center gap-3">
-                          <Avatar className="h-12 w-12">
-                            <AvatarFallback className="bg-[#D4F872] text-[#323927] font-medium">
-                              {review.reviewerInitials}
-                            </AvatarFallback>
-                          </Avatar>
-                          <div>
-                            <p className="font-medium text-[#323927]">{review.reviewer}</p>
-                            <p className="text-sm text-muted-foreground">
-                              {review.submittedAtFormatted}
-                            </p>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <ChannelBadge channel={review.channel} />
-                          <StarRating rating={review.overallRating} size="sm" showValue />
-                        </div>
-                      </div>
-
-                      {/* Review Content */}
-                      <p className="text-[#323927] leading-relaxed">
-                        {review.content}
-                      </p>
-
-                      {/* Category Ratings */}
-                      {review.categories.length > 0 && (
-                        <div className="mt-4 pt-4 border-t border-[#CECEC7]/30">
-                          <div className="flex flex-wrap gap-4">
-                            {review.categories.slice(0, 4).map((cat) => (
-                              <div key={cat.name} className="flex items-center gap-2">
-                                <span className="text-sm text-muted-foreground">
-                                  {cat.displayName}
-                                </span>
-                                <div className="flex items-center gap-1">
-                                  <div className="w-16 h-1.5 bg-[#F5F3EF] rounded-full overflow-hidden">
-                                    <div 
-                                      className="h-full bg-[#D4F872] rounded-full"
-                                      style={{ width: `${(cat.rating / cat.maxRating) * 100}%` }}
-                                    />
-                                  </div>
-                                  <span className="text-xs font-medium text-[#323927]">
-                                    {cat.rating}
-                                  </span>
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
-                    </article>
-                  ))}
+                <div className="space-y-8">
+                  <RatingBreakdown performance={performance} categories={categories} />
+                  <PropertyReviews
+                    propertyId={property.id}
+                    initialPage={{
+                      reviews: firstPage.items,
+                      total: reviews.length,
+                      nextCursor: firstPage.pagination.nextCursor,
+                    }}
+                    pageSize={REVIEWS_PAGE_SIZE}
+                  />
                 </div>
               )}
             </div>
@@ -358,15 +324,13 @@ export default function PropertyPage() {
               Explore More Properties
             </h3>
             <div className="flex flex-wrap justify-center gap-3">
-              {Object.entries(propertyDetails)
-                .filter(([key]) => key !== id)
-                .map(([key, prop]) => (
-                  <Link key={key} href={`/property/${key}`}>
-                    <Button variant="outline" className="border-[#323927]/20 hover:bg-white">
-                      {prop.location.split(',')[0]}
-                    </Button>
-                  </Link>
-                ))}
+              {otherProperties.map((other) => (
+                <Link key={other.id} href={`/property/${other.id}`}>
+                  <Button variant="outline" className="border-[#323927]/20 hover:bg-white">
+                    {other.location}
+                  </Button>
+                </Link>
+              ))}
             </div>
           </div>
         </section>
@@ -393,3 +357,15 @@ export default function PropertyPage() {
     </div>
   );
 }
+
+/**
+ * No pages are built ahead of time: each property page is rendered on its
+ * first request (reviews may need a sync) and cached from then on
+ */
+export function generateStaticParams(): PropertyPageProps['params'][] {
+  return [];
+}
+
+// Re-render at most every 5 minutes to pick up newly synced reviews;
+// approval changes revalidate the page immediately
+export const revalidate = 300;
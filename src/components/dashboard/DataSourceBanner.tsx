@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * DataSourceBanner Component
+ *
+ * Warns managers when the dashboard is not showing live data, or when some
+ * review sources failed to sync, so decisions are never made on sample or
+ * stale reviews by accident.
+ */
+
+import type { ReviewDataSource } from '@/types/review';
+
+interface DataSourceBannerProps {
+  source?: ReviewDataSource;
+}
+
+const modeMessages: Record<Exclude<ReviewDataSource['mode'], 'live'>, { title: string; detail: string }> = {
+  mock: {
+    title: 'Sample data',
+    detail: 'These reviews are bundled mock data, not your Hostaway account.',
+  },
+  file: {
+    title: 'Imported file',
+    detail: 'These reviews were loaded from a local data file, not the Hostaway API.',
+  },
+  cache: {
+    title: 'Cached data',
+    detail: 'No review source could be reached, so the last successfully synced reviews are shown.',
+  },
+};
+
+const partialMessage = {
+  title: 'Partial data',
+  detail: 'Some review sources could not be synced, so their last synced reviews are shown.',
+};
+
+export function DataSourceBanner({ source }: DataSourceBannerProps) {
+  if (!source) return null;
+  if (source.mode === 'live' && source.upstreamStatus !== 'error') return null;
+
+  const message = source.mode === 'live' ? partialMessage : modeMessages[source.mode];
+  const failedSources = source.sources?.filter(entry => entry.status === 'error') ?? [];
+  const fetchedAt = new Date(source.fetchedAt).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (
+    <div
+      role="status"
+      className="bg-amber-50 border-b border-amber-200 text-amber-900"
+    >
+      <div className="container mx-auto px-4 py-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+        <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+        <span className="font-semibold">
+          {source.mode === 'live' ? message.title : `Not live data: ${message.title}`}
+        </span>
+        <span>{message.detail}</span>
+        <span className="text-amber-700">
+          {source.recordCounts.received} records · fetched {fetchedAt}
+          {failedSources.length === 0 && source.upstreamError && ` · ${source.upstreamError}`}
+        </span>
+        {failedSources.map(entry => (
+          <span key={entry.id} className="text-amber-700">
+            <span className="font-medium">{entry.displayName}</span> failed: {entry.error}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -14,11 +14,21 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import type { PropertyInfo, ReviewFilters, ReviewSort } from '@/types/review';
+import { Input } from '@/components/ui/input';
+import { getChannelDisplayName } from '@/lib/channels';
+import { SEASON_DISPLAY_NAMES, STAY_LENGTH_BUCKETS, STAY_SEASONS } from '@/lib/stays';
+import type {
+  CategoryFilter,
+  CategorySummary,
+  PropertyInfo,
+  ReviewFilters,
+  ReviewSort,
+} from '@/types/review';
 
 interface FilterBarProps {
   properties: PropertyInfo[];
   channels: string[];
+  categories: CategorySummary[];
   filters: ReviewFilters;
   sort: ReviewSort;
   onFiltersChange: (filters: ReviewFilters) => void;
@@ -26,16 +36,53 @@ interface FilterBarProps {
   onReset: () => void;
 }
 
-const channelDisplayNames: Record<string, string> = {
-  airbnb: 'Airbnb',
-  'booking.com': 'Booking.com',
-  vrbo: 'VRBO',
-  direct: 'Direct',
-};
+/**
+ * Rating options encode a bound and value, e.g. `min:4` or `max:2`
+ */
+const ratingOptions = [
+  { value: 'min:5', label: '5 Stars' },
+  { value: 'min:4', label: '4+ Stars' },
+  { value: 'min:3', label: '3+ Stars' },
+  { value: 'max:3', label: '3 Stars or Less' },
+  { value: 'max:2', label: '2 Stars or Less' },
+];
+
+function getRatingValue(filters: ReviewFilters): string {
+  if (filters.minRating !== undefined) return `min:${filters.minRating}`;
+  if (filters.maxRating !== undefined) return `max:${filters.maxRating}`;
+  return 'all';
+}
+
+/**
+ * Category thresholds (category scores are out of 10)
+ */
+const categoryThresholdOptions = [
+  { value: 'min:0', label: 'Any Score' },
+  { value: 'max:6', label: '6 or Below' },
+  { value: 'max:8', label: '8 or Below' },
+  { value: 'min:9', label: '9 or Above' },
+  { value: 'min:10', label: '10 Only' },
+];
+
+/**
+ * Stay length options are keyed by bucket; filters hold the night range
+ */
+function getStayLengthValue(filters: ReviewFilters): string {
+  const bucket = STAY_LENGTH_BUCKETS.find(b =>
+    b.minNights === filters.minNights && b.maxNights === filters.maxNights
+  );
+  return bucket?.key ?? 'all';
+}
+
+function getCategoryThresholdValue(filter: CategoryFilter): string {
+  if (filter.max !== undefined) return `max:${filter.max}`;
+  return `min:${filter.min ?? 0}`;
+}
 
 export function FilterBar({
   properties,
   channels,
+  categories,
   filters,
   sort,
   onFiltersChange,
@@ -45,10 +92,73 @@ export function FilterBar({
   const hasActiveFilters = 
     filters.propertyId || 
     filters.channel || 
-    filters.minRating || 
+    filters.minRating !== undefined || 
+    filters.maxRating !== undefined || 
     filters.type !== 'all' ||
+    (filters.status && filters.status !== 'all') ||
+    filters.dateFrom ||
+    filters.dateTo ||
+    filters.minNights !== undefined ||
+    filters.maxNights !== undefined ||
+    filters.season ||
+    (filters.categories?.length ?? 0) > 0 ||
     filters.approvedOnly;
 
+  // The bar edits a single category threshold
+  const categoryFilter = filters.categories?.[0];
+  const categoryDisplayName = categories.find(
+    c => c.name === categoryFilter?.category
+  )?.displayName;
+
+  const handleCategoryChange = (category: string) => {
+    if (category === 'all') {
+      onFiltersChange({ ...filters, categories: undefined });
+      if (sort.field === 'category') {
+        onSortChange({ field: 'date', order: 'desc' });
+      }
+      return;
+    }
+
+    onFiltersChange({
+      ...filters,
+      categories: [{ ...(categoryFilter ?? { min: 0 }), category }],
+    });
+    if (sort.field === 'category') {
+      onSortChange({ ...sort, category });
+    }
+  };
+
+  const handleCategoryThresholdChange = (value: string) => {
+    if (!categoryFilter) return;
+    const [bound, rating] = value.split(':');
+    onFiltersChange({
+      ...filters,
+      categories: [{
+        category: categoryFilter.category,
+        min: bound === 'min' ? parseFloat(rating) : undefined,
+        max: bound === 'max' ? parseFloat(rating) : undefined,
+      }],
+    });
+  };
+
+  const handleStayLengthChange = (value: string) => {
+    const bucket = STAY_LENGTH_BUCKETS.find(b => b.key === value);
+    onFiltersChange({
+      ...filters,
+      minNights: bucket?.minNights,
+      maxNights: bucket?.maxNights,
+    });
+  };
+
+  const handleRatingChange = (value: string) => {
+    const [bound, rating] = value.split(':');
+    onFiltersChange({
+      ...filters,
+      minRating: bound === 'min' ? parseFloat(rating) : undefined,
+      maxRating: bound === 'max' ? parseFloat(rating) : undefined,
+    });
+  };
+
   return (
     <div className="flex flex-wrap items-center gap-3 p-4 bg-card rounded-xl border border-border/50">
       {/* Property Filter */}
@@ -85,27 +195,24 @@ export function FilterBar({
           <SelectItem value="all">All Channels</SelectItem>
           {channels.map((channel) => (
             <SelectItem key={channel} value={channel}>
-              {channelDisplayNames[channel] || channel}
+              {getChannelDisplayName(channel)}
             </SelectItem>
           ))}
         </SelectContent>
       </Select>
 
       {/* Rating Filter */}
-      <Select
-        value={filters.minRating?.toString() || 'all'}
-        onValueChange={(value) => 
-          onFiltersChange({ ...filters, minRating: value === 'all' ? undefined : parseInt(value) })
-        }
-      >
-        <SelectTrigger className="w-[140px]">
-          <SelectValue placeholder="Min Rating" />
+      <Select value={getRatingValue(filters)} onValueChange={handleRatingChange}>
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="Rating" />
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All Ratings</SelectItem>
-          <SelectItem value="5">5 Stars</SelectItem>
-          <SelectItem value="4">4+ Stars</SelectItem>
-          <SelectItem value="3">3+ Stars</SelectItem>
+          {ratingOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
         </SelectContent>
       </Select>
 
@@ -126,15 +233,129 @@ export function FilterBar({
         </SelectContent>
       </Select>
 
+      {/* Status Filter */}
+      <Select
+        value={filters.status || 'all'}
+        onValueChange={(value) => 
+          onFiltersChange({ ...filters, status: value as ReviewFilters['status'] })
+        }
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Statuses</SelectItem>
+          <SelectItem value="published">Published</SelectItem>
+          <SelectItem value="pending">Pending</SelectItem>
+          <SelectItem value="rejected">Rejected</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* Category Filter */}
+      <Select value={categoryFilter?.category || 'all'} onValueChange={handleCategoryChange}>
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Categories</SelectItem>
+          {categories.map((category) => (
+            <SelectItem key={category.name} value={category.name}>
+              {category.displayName}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {categoryFilter && (
+        <Select
+          value={getCategoryThresholdValue(categoryFilter)}
+          onValueChange={handleCategoryThresholdChange}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Score" />
+          </SelectTrigger>
+          <SelectContent>
+            {categoryThresholdOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Stay Length Filter */}
+      <Select value={getStayLengthValue(filters)} onValueChange={handleStayLengthChange}>
+        <SelectTrigger className="w-[150px]">
+          <SelectValue placeholder="Stay Length" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any Stay Length</SelectItem>
+          {STAY_LENGTH_BUCKETS.map((bucket) => (
+            <SelectItem key={bucket.key} value={bucket.key}>
+              {bucket.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Season Filter */}
+      <Select
+        value={filters.season || 'all'}
+        onValueChange={(value) =>
+          onFiltersChange({
+            ...filters,
+            season: value === 'all' ? undefined : value as ReviewFilters['season'],
+          })
+        }
+      >
+        <SelectTrigger className="w-[170px]">
+          <SelectValue placeholder="Season" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any Season</SelectItem>
+          {STAY_SEASONS.map((season) => (
+            <SelectItem key={season} value={season}>
+              {SEASON_DISPLAY_NAMES[season]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Date Range */}
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          aria-label="Submitted from"
+          value={filters.dateFrom || ''}
+          max={filters.dateTo || undefined}
+          onChange={(e) => onFiltersChange({ ...filters, dateFrom: e.target.value || undefined })}
+          className="w-[150px]"
+        />
+        <span className="text-sm text-muted-foreground">to</span>
+        <Input
+          type="date"
+          aria-label="Submitted to"
+          value={filters.dateTo || ''}
+          min={filters.dateFrom || undefined}
+          onChange={(e) => onFiltersChange({ ...filters, dateTo: e.target.value || undefined })}
+          className="w-[150px]"
+        />
+      </div>
+
       {/* Sort */}
       <Select
         value={`${sort.field}-${sort.order}`}
         onValueChange={(value) => {
           const [field, order] = value.split('-') as [typeof sort.field, typeof sort.order];
-          onSortChange({ field, order });
+          onSortChange(
+            field === 'category'
+              ? { field, order, category: categoryFilter?.category }
+              : { field, order }
+          );
         }}
       >
-        <SelectTrigger className="w-[160px]">
+        <SelectTrigger className="w-[180px]">
           <SelectValue placeholder="Sort by" />
         </SelectTrigger>
         <SelectContent>
@@ -142,6 +363,12 @@ export function FilterBar({
           <SelectItem value="date-asc">Oldest First</SelectItem>
           <SelectItem value="rating-desc">Highest Rated</SelectItem>
           <SelectItem value="rating-asc">Lowest Rated</SelectItem>
+          {categoryFilter && (
+            <>
+              <SelectItem value="category-asc">Lowest {categoryDisplayName}</SelectItem>
+              <SelectItem value="category-desc">Highest {categoryDisplayName}</SelectItem>
+            </>
+          )}
         </SelectContent>
       </Select>
 
@@ -152,7 +379,7 @@ export function FilterBar({
         onClick={() => onFiltersChange({ ...filters, approvedOnly: !filters.approvedOnly })}
         className="shrink-0"
       >
-        {filters.approvedOnly ? '✓ ' : ''}Published Only
+        {filters.approvedOnly ? '✓ ' : ''}Visible Only
       </Button>
 
       {/* Reset */}
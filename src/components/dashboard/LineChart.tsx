@@ -0,0 +1,176 @@
+'use client';
+
+/**
+ * LineChart Component
+ *
+ * Small SVG line chart for values over a shared set of periods. Periods
+ * without a value break the line; each point has a tooltip with its value.
+ */
+
+export interface LineChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  /** One value per label, null where there is none */
+  values: (number | null)[];
+}
+
+interface LineChartProps {
+  /** Period labels along the x axis */
+  labels: string[];
+  series: LineChartSeries[];
+  /** Y axis bounds; `max` defaults to the largest value */
+  min?: number;
+  max?: number;
+  formatValue?: (value: number) => string;
+  /** Describes the chart for screen readers */
+  title: string;
+}
+
+// Chart coordinates; the SVG scales to its container's width
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 };
+
+const Y_TICKS = 4;
+const MAX_X_LABELS = 6;
+
+/**
+ * Colors for series in order, readable on light and dark backgrounds
+ */
+export const CHART_COLORS = [
+  'hsl(var(--chart-1))',
+  '#2563eb',
+  'hsl(var(--chart-5))',
+  '#d97706',
+  '#0d9488',
+  '#7c3aed',
+  'hsl(var(--chart-3))',
+  '#db2777',
+];
+
+/**
+ * Split a series into runs of consecutive values, so gaps are not bridged
+ */
+function toSegments(points: ({ x: number; y: number } | null)[]): { x: number; y: number }[][] {
+  const segments: { x: number; y: number }[][] = [];
+  let current: { x: number; y: number }[] = [];
+
+  points.forEach(point => {
+    if (point) {
+      current.push(point);
+    } else if (current.length > 0) {
+      segments.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) segments.push(current);
+
+  return segments;
+}
+
+export function LineChart({
+  labels,
+  series,
+  min = 0,
+  max,
+  formatValue = value => String(value),
+  title,
+}: LineChartProps) {
+  const values = series.flatMap(s => s.values).filter((v): v is number => v !== null);
+  const top = Math.max(max ?? Math.max(...values, min + 1), min + 1);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const xFor = (index: number) => PADDING.left +
+    (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const yFor = (value: number) => PADDING.top + (1 - (value - min) / (top - min)) * plotHeight;
+
+  const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => min + ((top - min) * i) / Y_TICKS);
+  const labelStep = Math.max(1, Math.ceil(labels.length / MAX_X_LABELS));
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={title}
+      >
+        {/* Grid and y axis */}
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={yFor(tick)}
+              y2={yFor(tick)}
+              className="stroke-border"
+              strokeWidth={1}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={yFor(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {formatValue(Math.round(tick * 10) / 10)}
+            </text>
+          </g>
+        ))}
+
+        {/* X axis labels */}
+        {labels.map((label, index) => (index % labelStep === 0 || index === labels.length - 1) && (
+          <text
+            key={label}
+            x={xFor(index)}
+            y={HEIGHT - 8}
+            textAnchor={index === 0 ? 'start' : index === labels.length - 1 ? 'end' : 'middle'}
+            className="fill-muted-foreground text-[10px]"
+          >
+            {label}
+          </text>
+        ))}
+
+        {/* Lines and points */}
+        {series.map(s => {
+          const points = s.values.map((value, index) =>
+            value !== null ? { x: xFor(index), y: yFor(value) } : null
+          );
+          return (
+            <g key={s.key}>
+              {toSegments(points).map((segment, index) => (
+                <polyline
+                  key={index}
+                  points={segment.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                />
+              ))}
+              {points.map((point, index) => point && (
+                <circle key={index} cx={point.x} cy={point.y} r={3} fill={s.color}>
+                  <title>{`${s.label}, ${labels[index]}: ${formatValue(s.values[index]!)}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      {series.length > 1 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {series.map(s => (
+            <li key={s.key} className="flex items-center gap-1.5">
+              <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+/**
+ * LoadMore Component
+ *
+ * Footer for paged review lists: a spinner while a page is loading,
+ * otherwise a button to fetch the next page when one exists.
+ */
+
+import { Button } from '@/components/ui/button';
+
+interface LoadMoreProps {
+  isLoading: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+}
+
+export function LoadMore({ isLoading, hasMore, onLoadMore }: LoadMoreProps) {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!hasMore) return null;
+
+  return (
+    <div className="flex justify-center">
+      <Button variant="outline" onClick={onLoadMore}>
+        Load more reviews
+      </Button>
+    </div>
+  );
+}
@@ -4,7 +4,8 @@
  * PropertyCard Component
  * 
  * Displays a summary card for a property showing key metrics
- * like average rating, review count, and trend.
+ * like rating, review count, and trend. The headline rating comes from the
+ * rating calculator; the plain average is shown beside it.
  */
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -19,7 +20,7 @@ interface PropertyCardProps {
 }
 
 export function PropertyCard({ performance, isSelected, onClick }: PropertyCardProps) {
-  const { property, totalReviews, averageRating, approvedCount, recentTrend, categoryAverages } = performance;
+  const { property, totalReviews, rating, approvedCount, recentTrend, categoryAverages } = performance;
 
   const trendIcon = {
     up: (
@@ -72,9 +73,20 @@ export function PropertyCard({ performance, isSelected, onClick }: PropertyCardP
       <CardContent className="space-y-4">
         {/* Rating and Count */}
         <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <StarRating rating={averageRating} size="md" />
-            <span className="font-semibold text-lg">{averageRating.toFixed(1)}</span>
+          <div>
+            {rating.value !== null ? (
+              <div className="flex items-center gap-2">
+                <StarRating rating={rating.value} size="md" />
+                <span className="font-semibold text-lg">{rating.value.toFixed(1)}</span>
+              </div>
+            ) : (
+              <span className="text-sm font-medium text-muted-foreground">Not rated yet</span>
+            )}
+            <p className="text-xs text-muted-foreground mt-0.5">
+              {rating.mean !== null
+                ? `Average ${rating.mean.toFixed(1)} from ${rating.reviewCount} scored`
+                : 'No scored reviews'}
+            </p>
           </div>
           <div className="text-right">
             <span className="text-2xl font-bold text-foreground">{totalReviews}</span>
@@ -0,0 +1,134 @@
+'use client';
+
+/**
+ * QuarantinePanel Component
+ *
+ * Lists upstream review records that failed validation during sync,
+ * with the reasons, so data problems are visible instead of silently
+ * dropping reviews. Each record's raw payload can be expanded.
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { QuarantinedRecord } from '@/types/review';
+
+interface QuarantineResponse {
+  success: boolean;
+  records?: QuarantinedRecord[];
+  error?: string;
+}
+
+function formatSeenAt(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function QuarantinePanel() {
+  const [records, setRecords] = useState<QuarantinedRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchQuarantine() {
+      try {
+        const response = await fetch('/api/reviews/quarantine');
+        const data: QuarantineResponse = await response.json();
+
+        if (data.success) {
+          setRecords(data.records ?? []);
+        } else {
+          setError(data.error || 'Failed to load quarantined records');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchQuarantine();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Quarantined Records</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          These upstream records failed validation and are not shown anywhere.
+          Fix them at the source; they are imported on the next sync once valid.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-center py-8 text-red-500">{error}</p>
+        ) : records.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No quarantined records</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Problems</TableHead>
+                <TableHead>Last Seen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map((record, index) => {
+                const key = `${record.source}-${record.recordId ?? index}-${record.firstSeenAt}`;
+                const isExpanded = expanded === key;
+
+                return (
+                  <TableRow key={key} className="align-top">
+                    <TableCell className="font-medium capitalize">{record.source}</TableCell>
+                    <TableCell>
+                      <button
+                        type="button"
+                        className="text-primary underline-offset-2 hover:underline"
+                        onClick={() => setExpanded(isExpanded ? null : key)}
+                      >
+                        {record.recordId ?? 'Unknown ID'}
+                      </button>
+                      {isExpanded && (
+                        <pre className="mt-2 max-w-md overflow-auto rounded bg-muted p-2 text-xs">
+                          {JSON.stringify(record.raw, null, 2)}
+                        </pre>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ul className="list-disc pl-4 space-y-1">
+                        {record.issues.map(issue => (
+                          <li key={issue}>{issue}</li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {formatSeenAt(record.lastSeenAt)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
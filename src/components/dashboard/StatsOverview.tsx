@@ -3,36 +3,31 @@
 /**
  * StatsOverview Component
  * 
- * Displays key metrics at a glance for the dashboard.
+ * Displays key metrics at a glance for the dashboard. Counts cover every
+ * guest review; the rating comes from the rating calculator, whose method
+ * is described below the cards.
  */
 
 import { Card, CardContent } from '@/components/ui/card';
-import type { NormalizedReview, PropertyInfo } from '@/types/review';
+import { describeRatingMethod } from '@/lib/rating';
+import type { DashboardStats } from '@/types/dashboard';
+import type { RatingResult } from '@/types/rating';
 
 interface StatsOverviewProps {
-  reviews: NormalizedReview[];
-  properties: PropertyInfo[];
+  stats: DashboardStats;
+  propertyCount: number;
+  /** Portfolio rating from the rating calculator */
+  publicRating: RatingResult;
 }
 
-export function StatsOverview({ reviews, properties }: StatsOverviewProps) {
-  // Calculate stats
-  const guestReviews = reviews.filter(r => r.type === 'guest');
-  const totalReviews = guestReviews.length;
-  const approvedCount = guestReviews.filter(r => r.isApprovedForDisplay).length;
-  
-  const averageRating = totalReviews > 0
-    ? guestReviews.reduce((sum, r) => sum + r.overallRating, 0) / totalReviews
-    : 0;
+export function StatsOverview({ stats, propertyCount, publicRating }: StatsOverviewProps) {
+  const { totalReviews, approvedCount, fiveStarCount, lowRatingCount } = stats;
 
-  // Count by rating
-  const fiveStarCount = guestReviews.filter(r => r.overallRating >= 4.5).length;
-  const lowRatingCount = guestReviews.filter(r => r.overallRating <= 2).length;
-
-  const stats = [
+  const cards = [
     {
       label: 'Total Reviews',
       value: totalReviews,
-      subtext: `${properties.length} properties`,
+      subtext: `${propertyCount} properties`,
       icon: (
         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
@@ -41,14 +36,14 @@ export function StatsOverview({ reviews, properties }: StatsOverviewProps) {
     },
     {
       label: 'Average Rating',
-      value: averageRating.toFixed(1),
+      value: publicRating.value !== null ? publicRating.value.toFixed(1) : '–',
       subtext: `${fiveStarCount} five-star reviews`,
       icon: (
         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
         </svg>
       ),
-      highlight: averageRating >= 4.5,
+      highlight: publicRating.value !== null && publicRating.value >= 4.5,
     },
     {
       label: 'Published',
@@ -75,33 +70,36 @@ export function StatsOverview({ reviews, properties }: StatsOverviewProps) {
   ];
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-      {stats.map((stat, index) => (
-        <Card 
-          key={stat.label} 
-          className={`fl-card animate-slide-up`}
-          style={{ animationDelay: `${index * 50}ms` }}
-        >
-          <CardContent className="p-4">
-            <div className="flex items-start justify-between mb-3">
-              <div className={`p-2 rounded-lg ${
-                stat.alert 
-                  ? 'bg-red-100 text-red-600' 
-                  : stat.highlight 
-                    ? 'bg-green-100 text-green-600'
-                    : 'bg-primary/10 text-primary'
-              }`}>
-                {stat.icon}
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {cards.map((stat, index) => (
+          <Card 
+            key={stat.label} 
+            className={`fl-card animate-slide-up`}
+            style={{ animationDelay: `${index * 50}ms` }}
+          >
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between mb-3">
+                <div className={`p-2 rounded-lg ${
+                  stat.alert 
+                    ? 'bg-red-100 text-red-600' 
+                    : stat.highlight 
+                      ? 'bg-green-100 text-green-600'
+                      : 'bg-primary/10 text-primary'
+                }`}>
+                  {stat.icon}
+                </div>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                <p className="text-sm font-medium text-foreground mt-0.5">{stat.label}</p>
+                <p className="text-xs text-muted-foreground mt-1">{stat.subtext}</p>
               </div>
-            </div>
-            <div>
-              <p className="text-2xl font-bold text-foreground">{stat.value}</p>
-              <p className="text-sm font-medium text-foreground mt-0.5">{stat.label}</p>
-              <p className="text-xs text-muted-foreground mt-1">{stat.subtext}</p>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{describeRatingMethod(publicRating)}</p>
     </div>
   );
 }
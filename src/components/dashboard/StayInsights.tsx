@@ -0,0 +1,124 @@
+'use client';
+
+/**
+ * StayInsights Component
+ *
+ * Average guest rating by length of stay and by season of check-in, for
+ * reviews linked to a reservation, answering questions like "do long
+ * stays rate lower?".
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { StayInsights as StayInsightsData, StayRatingGroup } from '@/types/reservation';
+
+interface StayInsightsProps {
+  /** Computed on the server (see `src/lib/stays.ts`) */
+  insights: StayInsightsData;
+}
+
+/**
+ * Plain-language strength of a correlation coefficient
+ */
+function describeCorrelation(value: number): string {
+  const strength = Math.abs(value);
+  if (strength < 0.1) return 'no meaningful relationship';
+  const size = strength < 0.3 ? 'weak' : strength < 0.6 ? 'moderate' : 'strong';
+  return value < 0
+    ? `a ${size} tendency for longer stays to rate lower`
+    : `a ${size} tendency for longer stays to rate higher`;
+}
+
+function RatingGroups({ title, groups }: { title: string; groups: StayRatingGroup[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {groups.map((group) => (
+          <div key={group.key} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-foreground">{group.label}</span>
+              <span className="text-muted-foreground">
+                {group.averageRating !== null ? (
+                  <>
+                    <span className="font-medium text-foreground">{group.averageRating.toFixed(1)}</span>
+                    {' '}· {group.reviewCount} review{group.reviewCount === 1 ? '' : 's'}
+                  </>
+                ) : (
+                  'No reviews'
+                )}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full rounded-full bg-primary"
+                style={{ width: `${((group.averageRating ?? 0) / 5) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function StayInsights({ insights }: StayInsightsProps) {
+  if (insights.linkedReviews === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        No guest reviews are linked to a reservation yet
+      </div>
+    );
+  }
+
+  const short = insights.byLength[0];
+  const long = insights.byLength[insights.byLength.length - 1];
+  const difference = short.averageRating !== null && long.averageRating !== null
+    ? Math.round((long.averageRating - short.averageRating) * 10) / 10
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-6 space-y-2">
+          <h3 className="font-semibold">Do long stays rate lower?</h3>
+          {difference !== null ? (
+            <p className="text-sm text-muted-foreground">
+              Stays of {long.label} average{' '}
+              <span className="font-medium text-foreground">{long.averageRating!.toFixed(1)}</span>
+              {' '}against{' '}
+              <span className="font-medium text-foreground">{short.averageRating!.toFixed(1)}</span>
+              {' '}for {short.label}
+              {difference === 0
+                ? ' — no difference.'
+                : ` — ${Math.abs(difference).toFixed(1)} ${difference < 0 ? 'lower' : 'higher'}.`}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Not enough short and long stays have been reviewed to compare them.
+            </p>
+          )}
+          {insights.nightsRatingCorrelation !== null && (
+            <p className="text-sm text-muted-foreground">
+              Across all linked reviews, nights and rating correlate at{' '}
+              <span className="font-medium text-foreground">
+                {insights.nightsRatingCorrelation.toFixed(2)}
+              </span>
+              : {describeCorrelation(insights.nightsRatingCorrelation)}.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Based on {insights.linkedReviews} guest review{insights.linkedReviews === 1 ? '' : 's'} linked
+            to a reservation; small groups can swing widely.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <RatingGroups title="By Length of Stay" groups={insights.byLength} />
+        <RatingGroups title="By Season of Check-in" groups={insights.bySeason} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+/**
+ * TopIssuesPanel Component
+ *
+ * Recurring problems in guest reviews for the dashboard's Issues tab: the
+ * issues found most often (see `src/lib/issues.ts`), how often they come up
+ * per period and per property, and the reviews behind each one.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ReviewCard } from '@/components/reviews/ReviewCard';
+import { CHART_COLORS, LineChart, type LineChartSeries } from './LineChart';
+import { LoadMore } from './LoadMore';
+import { useIssueReport } from '@/hooks/useIssueReport';
+import { usePagedReviews } from '@/hooks/usePagedReviews';
+import type { AnalyticsInterval } from '@/types/analytics';
+import type { IssueQuery, IssueSummary } from '@/types/issues';
+import type { PropertyInfo, ReviewFilters, ReviewSort } from '@/types/review';
+
+interface TopIssuesPanelProps {
+  properties: PropertyInfo[];
+  onApprovalChange?: (reviewId: string, approved: boolean) => void;
+}
+
+const intervalOptions: { value: AnalyticsInterval; label: string }[] = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+];
+
+// Issues charted over time, most frequent first
+const MAX_CHART_ISSUES = 5;
+
+const NEWEST_FIRST: ReviewSort = { field: 'date', order: 'desc' };
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+interface IssueReviewsProps {
+  issue: IssueSummary;
+  propertyId?: string;
+  onApprovalChange?: (reviewId: string, approved: boolean) => void;
+}
+
+/**
+ * Reviews tagged with an issue, newest first
+ */
+function IssueReviews({ issue, propertyId, onApprovalChange }: IssueReviewsProps) {
+  const filters = useMemo<ReviewFilters>(
+    () => ({ type: 'all', issue: issue.key, propertyId }),
+    [issue.key, propertyId]
+  );
+  const reviewList = usePagedReviews(filters, NEWEST_FIRST);
+  const { updateReview } = reviewList;
+
+  const handleApprovalChange = useCallback((reviewId: string, approved: boolean) => {
+    updateReview(reviewId, { isApprovedForDisplay: approved });
+    onApprovalChange?.(reviewId, approved);
+  }, [updateReview, onApprovalChange]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Showing {reviewList.reviews.length} of {reviewList.total} reviews mentioning{' '}
+        {issue.label.toLowerCase()}
+      </p>
+
+      <div className="grid gap-4">
+        {reviewList.error ? (
+          <div className="text-center py-12 text-red-500">{reviewList.error}</div>
+        ) : (
+          reviewList.reviews.map((review) => (
+            <ReviewCard
+              key={review.id}
+              review={review}
+              showApprovalToggle
+              showProperty={!propertyId}
+              onApprovalChange={handleApprovalChange}
+            />
+          ))
+        )}
+      </div>
+
+      <LoadMore
+        isLoading={reviewList.isLoading}
+        hasMore={reviewList.hasMore}
+        onLoadMore={reviewList.loadMore}
+      />
+    </div>
+  );
+}
+
+export function TopIssuesPanel({ properties, onApprovalChange }: TopIssuesPanelProps) {
+  const [interval, setIssueInterval] = useState<AnalyticsInterval>('month');
+  const [propertyId, setPropertyId] = useState<string | undefined>();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const query = useMemo<IssueQuery>(() => ({ interval }), [interval]);
+  const filters = useMemo<ReviewFilters>(() => (propertyId ? { propertyId } : {}), [propertyId]);
+  const { report, isLoading, error } = useIssueReport(filters, query);
+
+  const chart = useMemo(() => {
+    if (!report) return null;
+
+    const charted = report.topIssues.slice(0, MAX_CHART_ISSUES);
+    const series: LineChartSeries[] = charted.map((issue, index) => ({
+      key: issue.key,
+      label: issue.label,
+      color: CHART_COLORS[index],
+      values: issue.buckets.map(bucket => bucket.reviewCount),
+    }));
+    const largestCount = Math.max(
+      1,
+      ...charted.flatMap(issue => issue.buckets.map(bucket => bucket.reviewCount))
+    );
+
+    return {
+      labels: report.periods.map(period => period.label),
+      series,
+      // Round up so the axis ticks are whole reviews
+      max: Math.ceil(largestCount / 4) * 4,
+    };
+  }, [report]);
+
+  // The selection is dropped when the issue no longer comes up for the filters
+  const selected = report?.topIssues.find(issue => issue.key === selectedKey) ?? null;
+  const largestIssueCount = report?.topIssues[0]?.reviewCount ?? 1;
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={interval} onValueChange={(value) => setIssueInterval(value as AnalyticsInterval)}>
+          <SelectTrigger className="w-[140px]" aria-label="Period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {intervalOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={propertyId ?? 'all'}
+          onValueChange={(value) => setPropertyId(value === 'all' ? undefined : value)}
+        >
+          <SelectTrigger className="w-[200px]" aria-label="Property">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All properties</SelectItem>
+            {properties.map((property) => (
+              <SelectItem key={property.id} value={property.id}>
+                {property.shortName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error ? (
+        <div className="text-center py-12 text-red-500">{error}</div>
+      ) : !report || !chart ? (
+        <div className="text-center py-12 text-muted-foreground">Loading issues...</div>
+      ) : report.topIssues.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          No recurring issues found in {report.analysedReviews} guest reviews
+        </div>
+      ) : (
+        <div className={`space-y-4 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+          <div className="grid lg:grid-cols-2 gap-4">
+            {/* Ranked issues */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Top Issues</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  Found in {report.analysedReviews} guest reviews; select an issue to see its reviews
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1">
+                  {report.topIssues.map((issue) => (
+                    <li key={issue.key}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedKey(issue.key === selectedKey ? null : issue.key)}
+                        aria-pressed={issue.key === selectedKey}
+                        className={`w-full text-left rounded-md px-3 py-2 transition-colors ${
+                          issue.key === selectedKey ? 'bg-primary/10' : 'hover:bg-muted'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-4 text-sm">
+                          <span className="font-medium">{issue.label}</span>
+                          <span className="text-muted-foreground whitespace-nowrap">
+                            {issue.reviewCount} review{issue.reviewCount === 1 ? '' : 's'}
+                            {' '}· {formatShare(issue.share)}
+                            {issue.averageRating !== null && <> · {issue.averageRating.toFixed(1)}★</>}
+                          </span>
+                        </div>
+                        <div className="mt-1.5 h-1.5 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-primary"
+                            style={{ width: `${(issue.reviewCount / largestIssueCount) * 100}%` }}
+                          />
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Issues Over Time</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  title="Reviews mentioning each top issue per period"
+                  labels={chart.labels}
+                  series={chart.series}
+                  min={0}
+                  max={chart.max}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Selected issue */}
+          {selected && (
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle className="text-base">{selected.label}</CardTitle>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedKey(null)}>
+                    Clear Selection
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {selected.examples.length > 0 && (
+                  <ul className="space-y-2">
+                    {selected.examples.map((example, index) => (
+                      <li key={index} className="text-sm italic text-muted-foreground border-l-2 border-border pl-3">
+                        “{example}”
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b border-border">
+                        <th className="py-2 pr-4 font-medium">Property</th>
+                        <th className="py-2 pr-4 font-medium text-right">Reviews</th>
+                        <th className="py-2 font-medium text-right">Share of its reviews</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.byProperty.map((property) => (
+                        <tr key={property.propertyId} className="border-b border-border/50 last:border-0">
+                          <td className="py-2 pr-4">{property.label}</td>
+                          <td className="py-2 pr-4 text-right">{property.reviewCount}</td>
+                          <td className="py-2 text-right">{formatShare(property.share)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <IssueReviews
+                  issue={selected}
+                  propertyId={propertyId}
+                  onApprovalChange={onApprovalChange}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Phrases the lexicon doesn't cover yet */}
+          {report.phrases.length > 0 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Other Recurring Complaints</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  Phrases repeated across complaint sentences that don&apos;t match a known issue
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ul className="flex flex-wrap gap-2">
+                  {report.phrases.map((phrase) => (
+                    <li key={phrase.phrase} className="rounded-full bg-muted px-3 py-1 text-sm">
+                      {phrase.phrase}
+                      <span className="ml-1.5 text-muted-foreground">{phrase.reviewCount}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+'use client';
+
+/**
+ * TrendsPanel Component
+ *
+ * Ratings over time for the dashboard's Trends tab: average rating, review
+ * volume and category averages per week, month or quarter, by property or
+ * channel, with the latest period compared to the one before and a rating
+ * trend per series (see `src/lib/analytics.ts`).
+ */
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CHART_COLORS, LineChart, type LineChartSeries } from './LineChart';
+import { useReviewAnalytics } from '@/hooks/useReviewAnalytics';
+import type {
+  AnalyticsBucket,
+  AnalyticsGroupBy,
+  AnalyticsInterval,
+  AnalyticsQuery,
+  AnalyticsSeries,
+  RatingTrend,
+} from '@/types/analytics';
+import type { PropertyInfo, ReviewFilters } from '@/types/review';
+
+interface TrendsPanelProps {
+  properties: PropertyInfo[];
+}
+
+const intervalOptions: { value: AnalyticsInterval; label: string }[] = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+];
+
+const groupByOptions: { value: AnalyticsGroupBy; label: string }[] = [
+  { value: 'property', label: 'By property' },
+  { value: 'channel', label: 'By channel' },
+];
+
+// Charted series besides the overall line, most reviewed first
+const MAX_CHART_SERIES = CHART_COLORS.length - 1;
+
+/**
+ * Signed change, e.g. "+0.25" or "−0.10"
+ */
+function formatChange(value: number, decimals: number): string {
+  if (value === 0) return '±0';
+  return `${value > 0 ? '+' : '−'}${Math.abs(value).toFixed(decimals)}`;
+}
+
+function describeTrend(trend: RatingTrend): string {
+  if (trend.slopePerMonth === null) return 'Not enough reviews';
+  const slope = `${formatChange(trend.slopePerMonth, 2)}/month`;
+  switch (trend.direction) {
+    case 'up':
+      return `Improving (${slope})`;
+    case 'down':
+      return `Declining (${slope})`;
+    case 'stable':
+      return 'Stable';
+  }
+}
+
+function ChangeText({ value, decimals }: { value: number | null; decimals: number }) {
+  if (value === null) return null;
+  return (
+    <span className={value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-muted-foreground'}>
+      {formatChange(value, decimals)}
+    </span>
+  );
+}
+
+/**
+ * Newest period with reviews, so a quiet current period doesn't hide the last result
+ */
+function getLatestBucket(series: AnalyticsSeries): AnalyticsBucket | null {
+  return [...series.buckets].reverse().find(bucket => bucket.reviewCount > 0) ?? null;
+}
+
+export function TrendsPanel({ properties }: TrendsPanelProps) {
+  const [interval, setAnalyticsInterval] = useState<AnalyticsInterval>('month');
+  const [groupBy, setGroupBy] = useState<AnalyticsGroupBy>('property');
+  const [propertyId, setPropertyId] = useState<string | undefined>();
+
+  const query = useMemo<AnalyticsQuery>(() => ({ interval, groupBy }), [interval, groupBy]);
+  const filters = useMemo<ReviewFilters>(() => (propertyId ? { propertyId } : {}), [propertyId]);
+  const { analytics, isLoading, error } = useReviewAnalytics(filters, query);
+
+  const charts = useMemo(() => {
+    if (!analytics) return null;
+
+    const labels = analytics.periods.map(period => period.label);
+    const charted = [analytics.overall, ...analytics.series.slice(0, MAX_CHART_SERIES)];
+    const toLines = (value: (bucket: AnalyticsBucket) => number | null): LineChartSeries[] =>
+      charted.map((series, index) => ({
+        key: series.key,
+        label: series.label,
+        color: CHART_COLORS[index],
+        values: series.buckets.map(value),
+      }));
+
+    const largestCount = Math.max(1, ...analytics.overall.buckets.map(bucket => bucket.reviewCount));
+
+    return {
+      labels,
+      rating: toLines(bucket => bucket.averageRating),
+      volume: toLines(bucket => bucket.reviewCount),
+      // Round up so the axis ticks are whole reviews
+      volumeMax: Math.ceil(largestCount / 4) * 4,
+      categories: analytics.categories.map((category, index) => ({
+        key: category.name,
+        label: category.displayName,
+        color: CHART_COLORS[index % CHART_COLORS.length],
+        values: analytics.overall.buckets.map(bucket => bucket.categoryAverages[category.name] ?? null),
+      })),
+    };
+  }, [analytics]);
+
+  const latest = analytics ? getLatestBucket(analytics.overall) : null;
+  const latestLabel = analytics?.periods.find(period => period.start === latest?.period)?.label;
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={interval} onValueChange={(value) => setAnalyticsInterval(value as AnalyticsInterval)}>
+          <SelectTrigger className="w-[140px]" aria-label="Period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {intervalOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={groupBy} onValueChange={(value) => setGroupBy(value as AnalyticsGroupBy)}>
+          <SelectTrigger className="w-[150px]" aria-label="Compare">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {groupByOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={propertyId ?? 'all'}
+          onValueChange={(value) => setPropertyId(value === 'all' ? undefined : value)}
+        >
+          <SelectTrigger className="w-[200px]" aria-label="Property">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All properties</SelectItem>
+            {properties.map((property) => (
+              <SelectItem key={property.id} value={property.id}>
+                {property.shortName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error ? (
+        <div className="text-center py-12 text-red-500">{error}</div>
+      ) : !analytics || !charts ? (
+        <div className="text-center py-12 text-muted-foreground">Loading trends...</div>
+      ) : analytics.overall.reviewCount === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">No rated guest reviews to chart</div>
+      ) : (
+        <div className={`space-y-4 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+          {/* Latest period against the one before */}
+          <div className="grid md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Rating in {latestLabel}</p>
+                <p className="text-2xl font-bold mt-1">
+                  {latest?.averageRating?.toFixed(2) ?? '–'}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {latest?.ratingChange != null ? (
+                    <><ChangeText value={latest.ratingChange} decimals={2} /> vs previous period</>
+                  ) : (
+                    'No reviews in the previous period'
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Reviews in {latestLabel}</p>
+                <p className="text-2xl font-bold mt-1">{latest?.reviewCount ?? 0}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {latest?.reviewCountChange != null ? (
+                    <><ChangeText value={latest.reviewCountChange} decimals={0} /> vs previous period</>
+                  ) : (
+                    'First period with reviews'
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Rating trend</p>
+                <p className="text-2xl font-bold mt-1">{describeTrend(analytics.overall.trend)}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Fitted over {analytics.overall.trend.reviewCount} reviews; only changes
+                  unlikely to be chance count as a trend
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Average Rating</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  title="Average rating per period"
+                  labels={charts.labels}
+                  series={charts.rating}
+                  min={0}
+                  max={5}
+                  formatValue={(value) => value.toFixed(1)}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Review Volume</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  title="Reviews per period"
+                  labels={charts.labels}
+                  series={charts.volume}
+                  min={0}
+                  max={charts.volumeMax}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {charts.categories.length > 0 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Category Averages (out of 10)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  title="Category averages per period"
+                  labels={charts.labels}
+                  series={charts.categories}
+                  min={0}
+                  max={10}
+                  formatValue={(value) => value.toFixed(1)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Per property or channel */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">
+                {groupBy === 'property' ? 'By Property' : 'By Channel'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="py-2 pr-4 font-medium">{groupBy === 'property' ? 'Property' : 'Channel'}</th>
+                    <th className="py-2 pr-4 font-medium text-right">Reviews</th>
+                    <th className="py-2 pr-4 font-medium text-right">Average</th>
+                    <th className="py-2 pr-4 font-medium text-right">Latest period</th>
+                    <th className="py-2 font-medium">Trend</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.series.map((series) => {
+                    const seriesLatest = getLatestBucket(series);
+                    return (
+                      <tr key={series.key} className="border-b border-border/50 last:border-0">
+                        <td className="py-2 pr-4">{series.label}</td>
+                        <td className="py-2 pr-4 text-right">{series.reviewCount}</td>
+                        <td className="py-2 pr-4 text-right">{series.averageRating?.toFixed(2) ?? '–'}</td>
+                        <td className="py-2 pr-4 text-right whitespace-nowrap">
+                          {seriesLatest?.averageRating?.toFixed(2) ?? '–'}
+                          {seriesLatest?.ratingChange != null && (
+                            <>
+                              {' '}(<ChangeText value={seriesLatest.ratingChange} decimals={2} />)
+                            </>
+                          )}
+                        </td>
+                        <td className="py-2 text-muted-foreground">{describeTrend(series.trend)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
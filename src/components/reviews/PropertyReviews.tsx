@@ -0,0 +1,172 @@
+'use client';
+
+/**
+ * PropertyReviews Component
+ *
+ * The review list on the public property page, with sorting, star and
+ * stay length filters, text search and "load more". The first page is
+ * rendered on the server; further pages and other queries come from the
+ * public reviews endpoint.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LoadMore } from '@/components/dashboard/LoadMore';
+import { PublicReviewCard } from './PublicReviewCard';
+import { usePublicReviews, type PublicReviewsPage } from '@/hooks/usePublicReviews';
+import { STAY_LENGTH_BUCKETS } from '@/lib/stays';
+import type { PublicReviewSort } from '@/types/review';
+
+interface PropertyReviewsProps {
+  propertyId: string;
+  initialPage: PublicReviewsPage;
+  pageSize: number;
+}
+
+const sortOptions: { value: PublicReviewSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' },
+];
+
+const starOptions = [5, 4, 3, 2, 1];
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+export function PropertyReviews({ propertyId, initialPage, pageSize }: PropertyReviewsProps) {
+  const [sort, setSort] = useState<PublicReviewSort>('newest');
+  const [stars, setStars] = useState<number | undefined>();
+  const [stay, setStay] = useState<string | undefined>();
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const query = useMemo(() => ({
+    sort,
+    ...(stars !== undefined && { stars }),
+    ...(stay && { stay }),
+    ...(search && { search }),
+  }), [sort, stars, stay, search]);
+
+  const { reviews, total, hasMore, isLoading, error, loadMore } =
+    usePublicReviews(propertyId, query, initialPage, pageSize);
+
+  const hasFilters = stars !== undefined || stay !== undefined || search !== '';
+
+  const resetFilters = () => {
+    setStars(undefined);
+    setStay(undefined);
+    setSearchInput('');
+    setSearch('');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          type="search"
+          aria-label="Search reviews"
+          placeholder="Search reviews"
+          value={searchInput}
+          maxLength={100}
+          onChange={(e) => setSearchInput(e.target.value)}
+          className="w-full sm:w-[220px] bg-white"
+        />
+
+        <Select value={sort} onValueChange={(value) => setSort(value as PublicReviewSort)}>
+          <SelectTrigger className="w-[150px] bg-white" aria-label="Sort reviews">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={stars !== undefined ? String(stars) : 'all'}
+          onValueChange={(value) => setStars(value === 'all' ? undefined : Number(value))}
+        >
+          <SelectTrigger className="w-[130px] bg-white" aria-label="Filter by rating">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All ratings</SelectItem>
+            {starOptions.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option} star{option !== 1 ? 's' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={stay ?? 'all'}
+          onValueChange={(value) => setStay(value === 'all' ? undefined : value)}
+        >
+          <SelectTrigger className="w-[150px] bg-white" aria-label="Filter by length of stay">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any stay</SelectItem>
+            {STAY_LENGTH_BUCKETS.map((bucket) => (
+              <SelectItem key={bucket.key} value={bucket.key}>
+                {bucket.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={resetFilters} className="text-muted-foreground">
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {hasFilters && !isLoading && !error && (
+        <p className="text-sm text-muted-foreground">
+          {total} matching review{total !== 1 ? 's' : ''}
+        </p>
+      )}
+
+      {/* Reviews */}
+      {error ? (
+        <p className="text-center py-8 text-red-500">{error}</p>
+      ) : reviews.length === 0 && !isLoading ? (
+        <div className="text-center py-12 bg-[#F5F3EF] rounded-2xl">
+          <p className="text-muted-foreground">No reviews match your search</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {reviews.map((review, index) => (
+            <PublicReviewCard
+              key={review.id}
+              review={review}
+              style={{ animationDelay: `${Math.min((index % pageSize) * 100, 500)}ms` }}
+            />
+          ))}
+        </div>
+      )}
+
+      <LoadMore isLoading={isLoading} hasMore={hasMore && !error} onLoadMore={loadMore} />
+    </div>
+  );
+}
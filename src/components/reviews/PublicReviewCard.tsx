@@ -0,0 +1,79 @@
+/**
+ * PublicReviewCard Component
+ *
+ * A single approved review as guests see it on the public property page,
+ * with its category scores.
+ */
+
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { StarRating } from './StarRating';
+import { ChannelBadge } from './ChannelBadge';
+import { ReviewDate } from './ReviewDate';
+import type { NormalizedReview } from '@/types/review';
+
+interface PublicReviewCardProps {
+  review: NormalizedReview;
+  style?: React.CSSProperties;
+}
+
+export function PublicReviewCard({ review, style }: PublicReviewCardProps) {
+  return (
+    <article
+      className="p-6 bg-white rounded-2xl border border-[#CECEC7]/50 shadow-sm animate-fade-in"
+      style={style}
+    >
+      {/* Review Header */}
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <Avatar className="h-12 w-12">
+            <AvatarFallback className="bg-[#D4F872] text-[#323927] font-medium">
+              {review.reviewerInitials}
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="font-medium text-[#323927]">{review.reviewer}</p>
+            <ReviewDate
+              value={review.submittedAt}
+              className="block text-sm text-muted-foreground"
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <ChannelBadge channel={review.channel} />
+          <StarRating rating={review.overallRating} size="sm" showValue />
+        </div>
+      </div>
+
+      {/* Review Content */}
+      <p className="text-[#323927] leading-relaxed">
+        {review.content}
+      </p>
+
+      {/* Category Ratings */}
+      {review.categories.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-[#CECEC7]/30">
+          <div className="flex flex-wrap gap-4">
+            {review.categories.slice(0, 4).map((cat) => (
+              <div key={cat.name} className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {cat.displayName}
+                </span>
+                <div className="flex items-center gap-1">
+                  <div className="w-16 h-1.5 bg-[#F5F3EF] rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-[#D4F872] rounded-full"
+                      style={{ width: `${(cat.rating / cat.maxRating) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-xs font-medium text-[#323927]">
+                    {cat.rating}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * RatingBreakdown Component
+ *
+ * Star distribution (5 to 1 stars) and per-category averages for the
+ * public property page, from a property's performance summary. Plain
+ * markup with no client state, so it is rendered on the server.
+ */
+
+import type { CategorySummary, PropertyPerformance } from '@/types/review';
+
+interface RatingBreakdownProps {
+  performance: PropertyPerformance;
+  /** Display names of the rated categories, in display order */
+  categories: CategorySummary[];
+}
+
+const STARS = [5, 4, 3, 2, 1];
+
+// Category ratings are out of 10
+const CATEGORY_SCALE = 10;
+
+export function RatingBreakdown({ performance, categories }: RatingBreakdownProps) {
+  const { totalReviews, ratingDistribution, categoryAverages } = performance;
+  const ratedCategories = categories.filter(category => categoryAverages[category.name] !== undefined);
+
+  return (
+    <div className="grid md:grid-cols-2 gap-8 p-6 bg-white rounded-2xl border border-[#CECEC7]/50">
+      {/* Star distribution */}
+      <div>
+        <h3 className="text-sm font-medium text-[#323927] mb-3">Rating distribution</h3>
+        <ul className="space-y-2">
+          {STARS.map((stars) => {
+            const count = ratingDistribution[stars] ?? 0;
+            const share = totalReviews > 0 ? (count / totalReviews) * 100 : 0;
+            return (
+              <li key={stars} className="flex items-center gap-3 text-sm">
+                <span className="w-14 shrink-0 text-muted-foreground">
+                  {stars} star{stars !== 1 ? 's' : ''}
+                </span>
+                <div
+                  className="flex-1 h-2 bg-[#F5F3EF] rounded-full overflow-hidden"
+                  role="img"
+                  aria-label={`${count} of ${totalReviews} reviews rated ${stars} star${stars !== 1 ? 's' : ''}`}
+                >
+                  <div className="h-full bg-[#323927] rounded-full" style={{ width: `${share}%` }} />
+                </div>
+                <span className="w-6 shrink-0 text-right text-[#323927]">{count}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {/* Category averages */}
+      {ratedCategories.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-[#323927] mb-3">Category ratings</h3>
+          <ul className="space-y-2">
+            {ratedCategories.map((category) => {
+              const average = categoryAverages[category.name];
+              return (
+                <li key={category.name} className="flex items-center gap-3 text-sm">
+                  <span className="w-32 shrink-0 text-muted-foreground truncate">
+                    {category.displayName}
+                  </span>
+                  <div className="flex-1 h-2 bg-[#F5F3EF] rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-[#D4F872] rounded-full"
+                      style={{ width: `${(average / CATEGORY_SCALE) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-8 shrink-0 text-right font-medium text-[#323927]">
+                    {average.toFixed(1)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,9 +14,37 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { StarRating } from './StarRating';
 import { ChannelBadge } from './ChannelBadge';
-import { toggleReviewApproval } from '@/lib/approval-store';
+import { ReviewDate } from './ReviewDate';
+import { updateReviewApproval } from '@/lib/approval-client';
+import { getIssueLabel } from '@/lib/issues';
 import type { NormalizedReview } from '@/types/review';
 
+/**
+ * Stay details from the linked reservation (dashboard only)
+ */
+function formatStay(reservation: NonNullable<NormalizedReview['reservation']>): string {
+  const checkIn = new Date(`${reservation.checkIn}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const parts = [
+    `${reservation.nights} night${reservation.nights === 1 ? '' : 's'} from ${checkIn}`,
+  ];
+  if (reservation.guests !== null) {
+    parts.push(`${reservation.guests} guest${reservation.guests === 1 ? '' : 's'}`);
+  }
+  parts.push(`booked via ${reservation.channelDisplayName}`);
+  if (reservation.totalPrice !== null && reservation.currency) {
+    parts.push(reservation.totalPrice.toLocaleString(undefined, {
+      style: 'currency',
+      currency: reservation.currency,
+      maximumFractionDigits: 0,
+    }));
+  }
+  return parts.join(' · ');
+}
+
 interface ReviewCardProps {
   review: NormalizedReview;
   showApprovalToggle?: boolean;
@@ -33,14 +61,23 @@ export function ReviewCard({
   compact = false,
 }: ReviewCardProps) {
   const [isApproved, setIsApproved] = useState(review.isApprovedForDisplay);
+  const [isSaving, setIsSaving] = useState(false);
 
-  const handleApprovalToggle = (checked: boolean) => {
-    // Update localStorage directly
-    toggleReviewApproval(review.id, checked);
+  const handleApprovalToggle = async (checked: boolean) => {
+    // Optimistically update, then persist to the server
     setIsApproved(checked);
-    
-    // Notify parent component
-    onApprovalChange?.(review.id, checked);
+    setIsSaving(true);
+
+    try {
+      await updateReviewApproval(review.id, checked);
+      // Notify parent component
+      onApprovalChange?.(review.id, checked);
+    } catch (error) {
+      console.error('Error updating approval:', error);
+      setIsApproved(!checked);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -67,10 +104,17 @@ export function ReviewCard({
               
               <div className="flex items-center gap-2 mt-1 flex-wrap">
                 <StarRating rating={review.overallRating} size="sm" showValue />
+                {showApprovalToggle && review.rawRating.value !== null &&
+                  review.rawRating.scale !== review.maxRating && (
+                  <span
+                    className="text-muted-foreground text-xs"
+                    title={`Original ${review.channelDisplayName} score`}
+                  >
+                    ({review.rawRating.value}/{review.rawRating.scale})
+                  </span>
+                )}
                 <span className="text-muted-foreground text-xs">·</span>
-                <span className="text-muted-foreground text-xs">
-                  {review.submittedAtFormatted}
-                </span>
+                <ReviewDate value={review.submittedAt} className="text-muted-foreground text-xs" />
               </div>
             </div>
           </div>
@@ -89,6 +133,24 @@ export function ReviewCard({
           </div>
         )}
 
+        {/* Stay details (dashboard only) */}
+        {showApprovalToggle && review.reservation && (
+          <div className="mb-3 text-xs text-muted-foreground">
+            Stay: {formatStay(review.reservation)}
+          </div>
+        )}
+
+        {/* Detected issues (dashboard only) */}
+        {showApprovalToggle && review.issues && review.issues.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-1.5">
+            {review.issues.map((issue) => (
+              <Badge key={issue} variant="outline" className="text-xs text-amber-700 border-amber-200">
+                {getIssueLabel(issue)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Review content */}
         <p className={`text-foreground leading-relaxed ${compact ? 'text-sm' : ''}`}>
           {review.content}
@@ -125,6 +187,7 @@ export function ReviewCard({
             </div>
             <Switch
               checked={isApproved}
+              disabled={isSaving}
               onCheckedChange={handleApprovalToggle}
               className="data-[state=checked]:bg-green-500"
             />
@@ -0,0 +1,47 @@
+'use client';
+
+/**
+ * ReviewDate Component
+ *
+ * Renders a UTC timestamp in the viewer's own locale and timezone, so teams
+ * in different countries each see the correct local date. The server (and
+ * the first client render) output an unambiguous UTC date, which is swapped
+ * for the localized one after mount to avoid hydration mismatches.
+ */
+
+import { useEffect, useState } from 'react';
+
+interface ReviewDateProps {
+  /** UTC ISO timestamp */
+  value: string;
+  className?: string;
+}
+
+const dateOptions: Intl.DateTimeFormatOptions = {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+};
+
+const titleOptions: Intl.DateTimeFormatOptions = {
+  dateStyle: 'full',
+  timeStyle: 'short',
+};
+
+export function ReviewDate({ value, className }: ReviewDateProps) {
+  const [label, setLabel] = useState(() => value.slice(0, 10));
+  const [title, setTitle] = useState<string | undefined>();
+
+  useEffect(() => {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return;
+    setLabel(date.toLocaleDateString(undefined, dateOptions));
+    setTitle(date.toLocaleString(undefined, titleOptions));
+  }, [value]);
+
+  return (
+    <time dateTime={value} title={title} className={className}>
+      {label}
+    </time>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+/**
+ * FrameResizer Component
+ *
+ * Reports the height of its content to the embedding page, so the widget
+ * loader (`public/widget.js`) can size the iframe to fit without scrollbars.
+ */
+
+import { useEffect, useRef } from 'react';
+
+/**
+ * Message posted to the parent window; the loader listens for this type
+ */
+export const WIDGET_RESIZE_MESSAGE = 'flex-living-reviews:resize';
+
+interface FrameResizerProps {
+  children: React.ReactNode;
+}
+
+export function FrameResizer({ children }: FrameResizerProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || window.parent === window) return;
+
+    // Measure the content rather than the document, which is at least as
+    // tall as the iframe and could never shrink
+    const report = () => {
+      window.parent.postMessage(
+        { type: WIDGET_RESIZE_MESSAGE, height: element.getBoundingClientRect().height },
+        '*'
+      );
+    };
+
+    const observer = new ResizeObserver(report);
+    observer.observe(element);
+    report();
+
+    return () => observer.disconnect();
+  }, []);
+
+  return <div ref={ref}>{children}</div>;
+}
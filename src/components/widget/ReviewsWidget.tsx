@@ -0,0 +1,71 @@
+/**
+ * ReviewsWidget Component
+ *
+ * Compact list of a property's approved guest reviews for embedding on
+ * external sites, with the aggregate rating and a link to the property page.
+ * The theme is applied with the `dark` class, so the shared design tokens
+ * (and `StarRating`) follow it.
+ */
+
+import { StarRating } from '@/components/reviews/StarRating';
+import { ReviewDate } from '@/components/reviews/ReviewDate';
+import type { WidgetData } from '@/types/widget';
+
+interface ReviewsWidgetProps {
+  data: WidgetData;
+}
+
+export function ReviewsWidget({ data }: ReviewsWidgetProps) {
+  const { property, rating, reviews, options } = data;
+
+  return (
+    // The page behind the widget stays light, so the dark theme paints its own backdrop
+    <div className={options.theme === 'dark' ? 'dark bg-background' : ''}>
+      <section className="bg-background text-foreground rounded-xl border border-border p-4 space-y-4 font-sans">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="font-semibold leading-tight truncate">{property.name}</h2>
+            <p className="text-xs text-muted-foreground">Guest reviews · {property.city}</p>
+          </div>
+          {rating.value !== null && (
+            <div className="text-right shrink-0">
+              <StarRating rating={rating.value} size="sm" showValue />
+              <p className="text-xs text-muted-foreground">
+                {rating.count} review{rating.count !== 1 ? 's' : ''}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Reviews */}
+        {reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No reviews yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {reviews.map((review) => (
+              <li key={review.id} className="border-t border-border pt-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{review.reviewer}</span>
+                  <StarRating rating={review.overallRating} size="sm" />
+                </div>
+                <p className="text-sm leading-relaxed line-clamp-4">{review.content}</p>
+                <ReviewDate value={review.submittedAt} className="block text-xs text-muted-foreground" />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Footer */}
+        <a
+          href={`${property.url}#reviews`}
+          target="_blank"
+          rel="noopener"
+          className="block text-sm font-medium text-primary hover:underline"
+        >
+          Read all reviews on Flex Living →
+        </a>
+      </section>
+    </div>
+  );
+}
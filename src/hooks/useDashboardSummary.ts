@@ -0,0 +1,52 @@
+'use client';
+
+/**
+ * useDashboardSummary Hook
+ *
+ * Loads the dashboard's stats, property performance and stay insights from
+ * `/api/reviews/summary`. `reload` fetches them again (e.g. after an
+ * approval change) while the previous summary stays on screen.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DashboardSummary, DashboardSummaryResponse } from '@/types/dashboard';
+
+export function useDashboardSummary() {
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  // Ignore responses that a later reload has superseded
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    async function fetchSummary() {
+      const id = ++requestId.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/reviews/summary');
+        const data: DashboardSummaryResponse = await response.json();
+        if (id !== requestId.current) return;
+
+        if (data.success && data.stats) {
+          setSummary(data as DashboardSummary);
+        } else {
+          setError(data.error || 'Failed to load reviews');
+        }
+      } catch {
+        if (id === requestId.current) setError('Failed to connect to server');
+      } finally {
+        if (id === requestId.current) setIsLoading(false);
+      }
+    }
+
+    fetchSummary();
+  }, [version]);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  return { summary, isLoading, error, reload };
+}
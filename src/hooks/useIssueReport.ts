@@ -0,0 +1,51 @@
+'use client';
+
+/**
+ * useIssueReport Hook
+ *
+ * Loads recurring issues from `/api/reviews/issues` and reloads whenever
+ * the filters or bucketing change.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { buildIssueQuery } from '@/lib/review-query';
+import type { IssueQuery, IssueReport, IssueReportResponse } from '@/types/issues';
+import type { ReviewFilters } from '@/types/review';
+
+export function useIssueReport(filters: ReviewFilters, query: IssueQuery) {
+  const [report, setReport] = useState<IssueReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore responses for a query that has since changed
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    async function fetchReport() {
+      const id = ++requestId.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = buildIssueQuery(filters, query);
+        const response = await fetch(`/api/reviews/issues?${params.toString()}`);
+        const data: IssueReportResponse = await response.json();
+        if (id !== requestId.current) return;
+
+        if (data.success && data.topIssues) {
+          setReport(data as IssueReport);
+        } else {
+          setError(data.error || 'Failed to load issues');
+        }
+      } catch {
+        if (id === requestId.current) setError('Failed to connect to server');
+      } finally {
+        if (id === requestId.current) setIsLoading(false);
+      }
+    }
+
+    fetchReport();
+  }, [filters, query]);
+
+  return { report, isLoading, error };
+}
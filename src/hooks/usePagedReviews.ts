@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * usePagedReviews Hook
+ *
+ * Loads reviews page by page from `/api/reviews/hostaway`, with filtering and
+ * sorting done server-side. Changing filters or sort restarts from the first
+ * page; `loadMore` follows the cursor returned by the API.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { buildReviewQuery } from '@/lib/review-query';
+import type {
+  NormalizedReview,
+  NormalizedReviewsResponse,
+  ReviewFilters,
+  ReviewSort,
+} from '@/types/review';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export function usePagedReviews(
+  filters: ReviewFilters,
+  sort: ReviewSort,
+  pageSize: number = DEFAULT_PAGE_SIZE
+) {
+  const [reviews, setReviews] = useState<NormalizedReview[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore responses for a query that has since changed
+  const requestId = useRef(0);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const id = ++requestId.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = buildReviewQuery(filters, sort, { pageSize, cursor });
+      const response = await fetch(`/api/reviews/hostaway?${query.toString()}`);
+      const data: NormalizedReviewsResponse = await response.json();
+      if (id !== requestId.current) return;
+
+      if (data.success) {
+        setReviews(prev => (cursor ? [...prev, ...data.reviews] : data.reviews));
+        setTotal(data.meta.total);
+        setNextCursor(data.meta.pagination?.nextCursor ?? null);
+      } else {
+        setError(data.error || 'Failed to load reviews');
+      }
+    } catch {
+      if (id === requestId.current) setError('Failed to connect to server');
+    } finally {
+      if (id === requestId.current) setIsLoading(false);
+    }
+  }, [filters, sort, pageSize]);
+
+  // Restart from the first page whenever the query changes
+  useEffect(() => {
+    fetchPage(null);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !isLoading) fetchPage(nextCursor);
+  }, [fetchPage, nextCursor, isLoading]);
+
+  // Apply a local change (e.g. approval toggle) without refetching
+  const updateReview = useCallback((reviewId: string, changes: Partial<NormalizedReview>) => {
+    setReviews(prev => prev.map(r => (r.id === reviewId ? { ...r, ...changes } : r)));
+  }, []);
+
+  return {
+    reviews,
+    total,
+    hasMore: nextCursor !== null,
+    isLoading,
+    error,
+    loadMore,
+    updateReview,
+  };
+}
@@ -0,0 +1,91 @@
+'use client';
+
+/**
+ * usePublicReviews Hook
+ *
+ * Pages through a property's approved reviews from
+ * `/api/properties/[id]/reviews`. Starts from the first page rendered on the
+ * server; changing the query restarts from the first page and `loadMore`
+ * follows the cursor returned by the API.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { buildPublicReviewQuery } from '@/lib/review-query';
+import type {
+  NormalizedReview,
+  PublicReviewQuery,
+  PublicReviewsResponse,
+} from '@/types/review';
+
+export interface PublicReviewsPage {
+  reviews: NormalizedReview[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export function usePublicReviews(
+  propertyId: string,
+  query: PublicReviewQuery,
+  initialPage: PublicReviewsPage,
+  pageSize: number
+) {
+  const [reviews, setReviews] = useState(initialPage.reviews);
+  const [total, setTotal] = useState(initialPage.total);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore responses for a query that has since changed
+  const requestId = useRef(0);
+  // The server already rendered the first page of the initial query
+  const hasInitialPage = useRef(true);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const id = ++requestId.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = buildPublicReviewQuery(query, { pageSize, cursor });
+      const response = await fetch(
+        `/api/properties/${encodeURIComponent(propertyId)}/reviews?${params.toString()}`
+      );
+      const data: PublicReviewsResponse = await response.json();
+      if (id !== requestId.current) return;
+
+      if (data.success && data.meta) {
+        setReviews(prev => (cursor ? [...prev, ...data.reviews] : data.reviews));
+        setTotal(data.meta.total);
+        setNextCursor(data.meta.pagination.nextCursor);
+      } else {
+        setError(data.error || 'Failed to load reviews');
+      }
+    } catch {
+      if (id === requestId.current) setError('Failed to load reviews');
+    } finally {
+      if (id === requestId.current) setIsLoading(false);
+    }
+  }, [propertyId, query, pageSize]);
+
+  // Restart from the first page whenever the query changes
+  useEffect(() => {
+    if (hasInitialPage.current) {
+      hasInitialPage.current = false;
+      return;
+    }
+    fetchPage(null);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !isLoading) fetchPage(nextCursor);
+  }, [fetchPage, nextCursor, isLoading]);
+
+  return {
+    reviews,
+    total,
+    hasMore: nextCursor !== null,
+    isLoading,
+    error,
+    loadMore,
+  };
+}
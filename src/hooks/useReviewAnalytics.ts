@@ -0,0 +1,51 @@
+'use client';
+
+/**
+ * useReviewAnalytics Hook
+ *
+ * Loads ratings over time from `/api/reviews/analytics` and reloads whenever
+ * the filters or bucketing change.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { buildAnalyticsQuery } from '@/lib/review-query';
+import type { AnalyticsQuery, ReviewAnalytics, ReviewAnalyticsResponse } from '@/types/analytics';
+import type { ReviewFilters } from '@/types/review';
+
+export function useReviewAnalytics(filters: ReviewFilters, query: AnalyticsQuery) {
+  const [analytics, setAnalytics] = useState<ReviewAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore responses for a query that has since changed
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    async function fetchAnalytics() {
+      const id = ++requestId.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = buildAnalyticsQuery(filters, query);
+        const response = await fetch(`/api/reviews/analytics?${params.toString()}`);
+        const data: ReviewAnalyticsResponse = await response.json();
+        if (id !== requestId.current) return;
+
+        if (data.success && data.overall) {
+          setAnalytics(data as ReviewAnalytics);
+        } else {
+          setError(data.error || 'Failed to load trends');
+        }
+      } catch {
+        if (id === requestId.current) setError('Failed to connect to server');
+      } finally {
+        if (id === requestId.current) setIsLoading(false);
+      }
+    }
+
+    fetchAnalytics();
+  }, [filters, query]);
+
+  return { analytics, isLoading, error };
+}
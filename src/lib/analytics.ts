@@ -0,0 +1,309 @@
+/**
+ * Review Analytics
+ *
+ * Buckets guest reviews into weeks (starting Monday), months or quarters,
+ * in UTC, and summarizes each period's rating, volume and category
+ * averages for the whole selection and per property or channel, with the
+ * change from the previous period.
+ *
+ * Trends are a least-squares fit of rating against review date. A
+ * direction is only reported when the slope is distinguishable from zero
+ * at the 95% level (Student's t) and large enough to matter, so a couple
+ * of unusually good or bad reviews read as stable.
+ *
+ * Safe to import from client components.
+ */
+
+import type {
+  AnalyticsBucket,
+  AnalyticsGroupBy,
+  AnalyticsInterval,
+  AnalyticsPeriod,
+  AnalyticsQuery,
+  AnalyticsSeries,
+  RatingTrend,
+  ReviewAnalytics,
+} from '@/types/analytics';
+import type { CategorySummary, NormalizedReview } from '@/types/review';
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+export const ANALYTICS_INTERVALS: AnalyticsInterval[] = ['week', 'month', 'quarter'];
+export const ANALYTICS_GROUPINGS: AnalyticsGroupBy[] = ['property', 'channel'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longer ranges keep the most recent periods
+const MAX_PERIODS = 104;
+
+/**
+ * Start (UTC midnight) of the period containing an instant
+ */
+function getPeriodStart(time: number, interval: AnalyticsInterval): number {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (interval) {
+    case 'week': {
+      const day = Date.UTC(year, month, date.getUTCDate());
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      return day - daysSinceMonday * DAY_MS;
+    }
+    case 'month':
+      return Date.UTC(year, month, 1);
+    case 'quarter':
+      return Date.UTC(year, month - (month % 3), 1);
+  }
+}
+
+function getNextPeriodStart(start: number, interval: AnalyticsInterval): number {
+  if (interval === 'week') return start + 7 * DAY_MS;
+
+  const date = new Date(start);
+  const months = interval === 'month' ? 1 : 3;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1);
+}
+
+// Fixed names, so labels don't depend on the runtime's locale data
+const MONTH_NAMES = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+];
+
+function formatPeriodLabel(start: number, interval: AnalyticsInterval): string {
+  const date = new Date(start);
+  const month = MONTH_NAMES[date.getUTCMonth()];
+  const year = date.getUTCFullYear();
+
+  switch (interval) {
+    case 'week':
+      return `${date.getUTCDate()} ${month} ${year}`;
+    case 'month':
+      return `${month} ${year}`;
+    case 'quarter':
+      return `Q${Math.floor(date.getUTCMonth() / 3) + 1} ${year}`;
+  }
+}
+
+function toPeriodKey(start: number): string {
+  return new Date(start).toISOString().slice(0, 10);
+}
+
+/**
+ * Start (`YYYY-MM-DD`) of the period a review was submitted in
+ */
+export function getReviewPeriod(review: NormalizedReview, interval: AnalyticsInterval): string {
+  return toPeriodKey(getPeriodStart(new Date(review.submittedAt).getTime(), interval));
+}
+
+/**
+ * Every period from the earliest to the latest review, including empty ones
+ */
+export function getPeriods(reviews: NormalizedReview[], interval: AnalyticsInterval): AnalyticsPeriod[] {
+  if (reviews.length === 0) return [];
+
+  const times = reviews.map(r => new Date(r.submittedAt).getTime());
+  const last = getPeriodStart(Math.max(...times), interval);
+  const periods: AnalyticsPeriod[] = [];
+
+  for (
+    let start = getPeriodStart(Math.min(...times), interval);
+    start <= last;
+    start = getNextPeriodStart(start, interval)
+  ) {
+    periods.push({ start: toPeriodKey(start), label: formatPeriodLabel(start, interval) });
+  }
+
+  return periods.slice(-MAX_PERIODS);
+}
+
+// ============================================================================
+// Trend
+// ============================================================================
+
+// Fewest reviews a trend is fitted to
+const MIN_TREND_REVIEWS = 5;
+
+// Smallest fitted change per 30 days worth reporting
+const MIN_MONTHLY_CHANGE = 0.05;
+
+// Two-tailed 95% critical values of Student's t for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23,
+  2.2, 2.18, 2.16, 2.14, 2.13, 2.12, 2.11, 2.1, 2.09, 2.09,
+  2.08, 2.07, 2.07, 2.06, 2.06, 2.06, 2.05, 2.05, 2.05, 2.04,
+];
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function isRatedGuestReview(review: NormalizedReview): boolean {
+  return review.type === 'guest' && review.overallRating > 0;
+}
+
+/**
+ * Trend of guest ratings over time
+ * With `windowDays`, only reviews submitted within that many days of the
+ * newest review are used.
+ */
+export function calculateRatingTrend(
+  reviews: NormalizedReview[],
+  windowDays?: number
+): RatingTrend {
+  const points = reviews
+    .filter(isRatedGuestReview)
+    .map(r => ({ x: new Date(r.submittedAt).getTime() / DAY_MS, y: r.overallRating }));
+
+  const newest = Math.max(...points.map(p => p.x));
+  const used = windowDays === undefined ? points : points.filter(p => p.x >= newest - windowDays);
+  const stable: RatingTrend = {
+    direction: 'stable',
+    slopePerMonth: null,
+    significant: false,
+    reviewCount: used.length,
+  };
+  if (used.length < MIN_TREND_REVIEWS) return stable;
+
+  const meanX = used.reduce((sum, p) => sum + p.x, 0) / used.length;
+  const meanY = used.reduce((sum, p) => sum + p.y, 0) / used.length;
+  let sxx = 0;
+  let sxy = 0;
+  used.forEach(p => {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+  });
+  // All reviews on the same day
+  if (sxx === 0) return stable;
+
+  const slope = sxy / sxx;
+  const residuals = used.reduce((sum, p) => sum + (p.y - meanY - slope * (p.x - meanX)) ** 2, 0);
+  const degreesOfFreedom = used.length - 2;
+  const standardError = Math.sqrt(residuals / degreesOfFreedom / sxx);
+  const critical = T_CRITICAL_95[degreesOfFreedom - 1] ?? 1.96;
+  const significant = standardError === 0
+    ? slope !== 0
+    : Math.abs(slope / standardError) >= critical;
+
+  const slopePerMonth = slope * 30;
+  const direction = !significant || Math.abs(slopePerMonth) < MIN_MONTHLY_CHANGE
+    ? 'stable'
+    : slopePerMonth > 0 ? 'up' : 'down';
+
+  return {
+    direction,
+    slopePerMonth: round(slopePerMonth, 3),
+    significant,
+    reviewCount: used.length,
+  };
+}
+
+// ============================================================================
+// Series
+// ============================================================================
+
+function averageRating(reviews: NormalizedReview[]): number | null {
+  if (reviews.length === 0) return null;
+  return round(reviews.reduce((sum, r) => sum + r.overallRating, 0) / reviews.length, 2);
+}
+
+function averageCategories(reviews: NormalizedReview[]): Record<string, number> {
+  const totals: Record<string, { sum: number; count: number }> = {};
+  reviews.forEach(r => {
+    r.categories.forEach(cat => {
+      if (!totals[cat.name]) {
+        totals[cat.name] = { sum: 0, count: 0 };
+      }
+      totals[cat.name].sum += cat.rating;
+      totals[cat.name].count++;
+    });
+  });
+
+  const averages: Record<string, number> = {};
+  Object.entries(totals).forEach(([name, { sum, count }]) => {
+    averages[name] = round(sum / count, 1);
+  });
+  return averages;
+}
+
+function summarizeSeries(
+  key: string,
+  label: string,
+  reviews: NormalizedReview[],
+  periods: AnalyticsPeriod[],
+  interval: AnalyticsInterval
+): AnalyticsSeries {
+  const byPeriod = new Map<string, NormalizedReview[]>();
+  reviews.forEach(r => {
+    const period = getReviewPeriod(r, interval);
+    byPeriod.set(period, [...(byPeriod.get(period) ?? []), r]);
+  });
+
+  const buckets: AnalyticsBucket[] = [];
+  periods.forEach((period, index) => {
+    const periodReviews = byPeriod.get(period.start) ?? [];
+    const rating = averageRating(periodReviews);
+    const previous = index > 0 ? buckets[index - 1] : null;
+
+    buckets.push({
+      period: period.start,
+      reviewCount: periodReviews.length,
+      averageRating: rating,
+      categoryAverages: averageCategories(periodReviews),
+      ratingChange: rating !== null && previous?.averageRating != null
+        ? round(rating - previous.averageRating, 2)
+        : null,
+      reviewCountChange: previous ? periodReviews.length - previous.reviewCount : null,
+    });
+  });
+
+  return {
+    key,
+    label,
+    reviewCount: reviews.length,
+    averageRating: averageRating(reviews),
+    buckets,
+    trend: calculateRatingTrend(reviews),
+  };
+}
+
+/**
+ * Ratings, volume and category averages over time for rated guest reviews
+ * `categories` gives display names; only categories the reviews rate are kept.
+ */
+export function buildReviewAnalytics(
+  reviews: NormalizedReview[],
+  query: AnalyticsQuery,
+  categories: CategorySummary[]
+): ReviewAnalytics {
+  const { interval, groupBy } = query;
+  const rated = reviews.filter(isRatedGuestReview);
+  const periods = getPeriods(rated, interval);
+
+  const groups = new Map<string, { label: string; reviews: NormalizedReview[] }>();
+  rated.forEach(r => {
+    const key = groupBy === 'property' ? r.propertyId : r.channel;
+    const label = groupBy === 'property' ? r.property.shortName : r.channelDisplayName;
+    const group = groups.get(key) ?? { label, reviews: [] };
+    group.reviews.push(r);
+    groups.set(key, group);
+  });
+
+  const series = Array.from(groups.entries())
+    .map(([key, group]) => summarizeSeries(key, group.label, group.reviews, periods, interval))
+    .sort((a, b) => b.reviewCount - a.reviewCount || a.label.localeCompare(b.label));
+
+  const ratedCategories = new Set(rated.flatMap(r => r.categories.map(cat => cat.name)));
+
+  return {
+    interval,
+    groupBy,
+    periods,
+    overall: summarizeSeries('all', 'All reviews', rated, periods, interval),
+    series,
+    categories: categories.filter(category => ratedCategories.has(category.name)),
+  };
+}
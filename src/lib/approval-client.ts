@@ -0,0 +1,23 @@
+/**
+ * Client-Side Approval Helpers
+ *
+ * Thin wrappers around `/api/reviews/approve` for use in client components.
+ * The server-side approval store is the source of truth.
+ */
+
+/**
+ * Persist the approval status of a review
+ * Throws if the server rejects the change
+ */
+export async function updateReviewApproval(reviewId: string, approved: boolean): Promise<void> {
+  const response = await fetch('/api/reviews/approve', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewId, approved }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Failed to update approval');
+  }
+}
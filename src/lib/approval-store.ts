@@ -1,104 +1,175 @@
 /**
- * Client-Side Approval Store
- * 
- * Uses localStorage to persist approved review IDs for demo purposes.
- * This approach works on Vercel without a database.
- * 
+ * Server-Side Approval Store
+ *
+ * Persists the set of review IDs that managers have approved for public
+ * display. This is the single source of truth for `isApprovedForDisplay`:
+ * the approve endpoint writes here and the reviews endpoint reads from here.
+ *
+ * Storage is behind the `ApprovalStoreAdapter` interface so the JSON file
+ * used in development can be swapped for a database-backed adapter.
+ *
  * Usage:
- * - Call these functions from client components only
- * - Approvals persist in the browser's localStorage
+ * - Call these functions from server code only (API routes, server components)
+ * - Client components should go through `/api/reviews/approve`
  */
 
+import { getConfig } from '@/lib/config';
+import { readJsonFile, writeJsonFile } from '@/lib/json-file';
 import initialApprovedData from '@/data/approved-reviews.json';
 
-const STORAGE_KEY = 'flexliving_approved_reviews';
+// ============================================================================
+// Types
+// ============================================================================
 
 /**
- * Check if we're running in the browser
+ * Persisted approval state
  */
-function isBrowser(): boolean {
-  return typeof window !== 'undefined';
+export interface ApprovalRecord {
+  approvedReviewIds: string[];
+  lastUpdated: string;
 }
 
 /**
- * Get approved review IDs from localStorage (or defaults)
+ * Storage backend for approval state
  */
-export function getApprovedReviewIds(): string[] {
-  if (!isBrowser()) {
-    // Server-side: return initial data
-    return initialApprovedData.approvedReviewIds;
-  }
+export interface ApprovalStoreAdapter {
+  read(): Promise<ApprovalRecord>;
+  write(record: ApprovalRecord): Promise<void>;
+}
 
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const data = JSON.parse(stored);
-      return data.approvedReviewIds || [];
-    }
-  } catch (e) {
-    console.error('Error reading from localStorage:', e);
-  }
+// ============================================================================
+// Adapters
+// ============================================================================
 
-  // Return initial data if nothing stored
-  return initialApprovedData.approvedReviewIds;
+/**
+ * Seed data used until the first approval is written
+ */
+function getSeedRecord(): ApprovalRecord {
+  return {
+    approvedReviewIds: [...initialApprovedData.approvedReviewIds],
+    lastUpdated: initialApprovedData.lastUpdated,
+  };
 }
 
 /**
- * Get approved IDs as a Set
+ * Stores approvals in a JSON file on disk
  */
-export function getApprovedIdsSet(): Set<string> {
-  return new Set(getApprovedReviewIds());
+export class JsonFileApprovalAdapter implements ApprovalStoreAdapter {
+  constructor(private readonly filePath: string) {}
+
+  async read(): Promise<ApprovalRecord> {
+    // No file yet: start from the seed data
+    const data = await readJsonFile<Partial<ApprovalRecord>>(this.filePath, getSeedRecord);
+    return {
+      approvedReviewIds: Array.isArray(data.approvedReviewIds)
+        ? data.approvedReviewIds.map(String)
+        : [],
+      lastUpdated: data.lastUpdated || new Date(0).toISOString(),
+    };
+  }
+
+  async write(record: ApprovalRecord): Promise<void> {
+    await writeJsonFile(this.filePath, record);
+  }
 }
 
 /**
- * Save approved review IDs to localStorage
+ * Keeps approvals in memory only (useful for read-only filesystems)
  */
-export function saveApprovedReviewIds(ids: string[]): void {
-  if (!isBrowser()) return;
+export class MemoryApprovalAdapter implements ApprovalStoreAdapter {
+  private record: ApprovalRecord;
 
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({
-      approvedReviewIds: ids,
-      lastUpdated: new Date().toISOString(),
-    }));
-  } catch (e) {
-    console.error('Error saving to localStorage:', e);
+  constructor(initial: ApprovalRecord = getSeedRecord()) {
+    this.record = initial;
+  }
+
+  async read(): Promise<ApprovalRecord> {
+    return { ...this.record, approvedReviewIds: [...this.record.approvedReviewIds] };
+  }
+
+  async write(record: ApprovalRecord): Promise<void> {
+    this.record = { ...record, approvedReviewIds: [...record.approvedReviewIds] };
   }
 }
 
+// ============================================================================
+// Store
+// ============================================================================
+
+let adapter: ApprovalStoreAdapter | null = null;
+
+// Serializes read-modify-write cycles so concurrent toggles don't clobber each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
 /**
- * Toggle approval status for a review
+ * Get the active adapter, defaulting to the configured approvals file
  */
-export function toggleReviewApproval(reviewId: string, approved: boolean): string[] {
-  const currentIds = getApprovedReviewIds();
-  const idSet = new Set(currentIds);
-
-  if (approved) {
-    idSet.add(reviewId);
-  } else {
-    idSet.delete(reviewId);
+function getAdapter(): ApprovalStoreAdapter {
+  if (!adapter) {
+    adapter = new JsonFileApprovalAdapter(getConfig().approvalsFile);
   }
+  return adapter;
+}
+
+/**
+ * Replace the storage backend (e.g. with a database adapter)
+ */
+export function setApprovalStoreAdapter(next: ApprovalStoreAdapter): void {
+  adapter = next;
+}
 
-  const newIds = Array.from(idSet);
-  saveApprovedReviewIds(newIds);
-  return newIds;
+/**
+ * Get the full approval record
+ */
+export async function getApprovalRecord(): Promise<ApprovalRecord> {
+  return getAdapter().read();
 }
 
 /**
- * Check if a review is approved
+ * Get approved review IDs
  */
-export function isReviewApproved(reviewId: string): boolean {
-  return getApprovedIdsSet().has(reviewId);
+export async function getApprovedReviewIds(): Promise<string[]> {
+  const record = await getAdapter().read();
+  return record.approvedReviewIds;
 }
 
 /**
- * Initialize localStorage with default data if empty
+ * Get approved IDs as a Set
  */
-export function initializeApprovals(): void {
-  if (!isBrowser()) return;
+export async function getApprovedIdsSet(): Promise<Set<string>> {
+  return new Set(await getApprovedReviewIds());
+}
 
-  const stored = localStorage.getItem(STORAGE_KEY);
-  if (!stored) {
-    saveApprovedReviewIds(initialApprovedData.approvedReviewIds);
-  }
+/**
+ * Set approval status for a review and return the updated record
+ */
+export function setReviewApproval(reviewId: string, approved: boolean): Promise<ApprovalRecord> {
+  const task = writeQueue.then(async () => {
+    const current = await getAdapter().read();
+    const idSet = new Set(current.approvedReviewIds);
+
+    if (approved) {
+      idSet.add(reviewId);
+    } else {
+      idSet.delete(reviewId);
+    }
+
+    const record: ApprovalRecord = {
+      approvedReviewIds: Array.from(idSet),
+      lastUpdated: new Date().toISOString(),
+    };
+    await getAdapter().write(record);
+    return record;
+  });
+
+  // Keep the queue alive even if this write fails
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
+
+/**
+ * Check if a review is approved
+ */
+export async function isReviewApproved(reviewId: string): Promise<boolean> {
+  return (await getApprovedIdsSet()).has(reviewId);
 }
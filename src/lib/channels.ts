@@ -0,0 +1,190 @@
+/**
+ * Channel Registry
+ *
+ * Single description of every booking/review channel: its canonical key,
+ * the spellings upstream systems use for it, display name, brand colour,
+ * native rating scale and category vocabulary. Normalization, filters and
+ * badges all read from here.
+ *
+ * Channels that are not registered still work: they get a display name
+ * derived from their key and a neutral colour.
+ *
+ * Safe to import from client components.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChannelRatingScale {
+  /** Maximum of the overall rating as the channel reports it */
+  overall: number;
+  /** Maximum of category ratings as reported, null if the channel has none */
+  category: number | null;
+}
+
+export interface ChannelDefinition {
+  /** Canonical key stored on normalized reviews (e.g. `booking.com`) */
+  key: string;
+  /** Other spellings that resolve to this channel, compared case-insensitively */
+  aliases: string[];
+  displayName: string;
+  /** Brand colour as a hex string */
+  color: string;
+  /** Text colour when the brand colour is too light to read (defaults to `color`) */
+  textColor?: string;
+  ratingScale: ChannelRatingScale;
+  /** Category keys the channel reports, with display names */
+  categories: Record<string, string>;
+  /**
+   * Whether reviews may be republished as schema.org markup (defaults to
+   * true); false for reviews the platform only licenses for display
+   */
+  structuredData?: boolean;
+  /** False for channels resolved on the fly from an unregistered key */
+  known: boolean;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const DEFAULT_CHANNEL_KEY = 'direct';
+const UNKNOWN_CHANNEL_COLOR = '#6B7280';
+
+// Hostaway reports category ratings out of 10 for every OTA it syncs
+const HOSTAWAY_OTA_CATEGORIES: Record<string, string> = {
+  cleanliness: 'Cleanliness',
+  communication: 'Communication',
+  accuracy: 'Accuracy',
+  location: 'Location',
+  value: 'Value',
+  respect_house_rules: 'House Rules',
+  check_in: 'Check-in',
+};
+
+const CHANNELS: Omit<ChannelDefinition, 'known'>[] = [
+  {
+    key: 'airbnb',
+    aliases: ['airbnbofficial', 'airbnb.com', 'air bnb'],
+    displayName: 'Airbnb',
+    color: '#FF5A5F',
+    ratingScale: { overall: 5, category: 10 },
+    categories: HOSTAWAY_OTA_CATEGORIES,
+  },
+  {
+    key: 'booking.com',
+    aliases: ['bookingcom', 'booking', 'booking_com'],
+    displayName: 'Booking.com',
+    color: '#003580',
+    ratingScale: { overall: 10, category: 10 },
+    categories: {
+      ...HOSTAWAY_OTA_CATEGORIES,
+      staff: 'Staff',
+      facilities: 'Facilities',
+      comfort: 'Comfort',
+      value_for_money: 'Value for Money',
+      free_wifi: 'Free WiFi',
+    },
+  },
+  {
+    key: 'vrbo',
+    aliases: ['vrbo.com'],
+    displayName: 'VRBO',
+    color: '#3B5998',
+    ratingScale: { overall: 5, category: 10 },
+    categories: HOSTAWAY_OTA_CATEGORIES,
+  },
+  {
+    key: 'homeaway',
+    aliases: ['home away', 'homeaway.com'],
+    displayName: 'HomeAway',
+    color: '#2A6EBB',
+    ratingScale: { overall: 5, category: 10 },
+    categories: HOSTAWAY_OTA_CATEGORIES,
+  },
+  {
+    key: 'expedia',
+    aliases: ['expedia.com'],
+    displayName: 'Expedia',
+    color: '#FFD700',
+    textColor: '#B8860B',
+    ratingScale: { overall: 5, category: 10 },
+    categories: HOSTAWAY_OTA_CATEGORIES,
+  },
+  {
+    key: 'direct',
+    aliases: ['direct booking', 'website', 'manual'],
+    displayName: 'Direct Booking',
+    color: '#323927',
+    ratingScale: { overall: 5, category: 10 },
+    categories: HOSTAWAY_OTA_CATEGORIES,
+  },
+  {
+    key: 'google',
+    aliases: ['google reviews', 'google maps'],
+    displayName: 'Google',
+    color: '#4285F4',
+    ratingScale: { overall: 5, category: null },
+    categories: {},
+    structuredData: false,
+  },
+];
+
+const channelsByName = new Map<string, ChannelDefinition>();
+CHANNELS.forEach(channel => {
+  const definition = { ...channel, known: true };
+  [channel.key, ...channel.aliases].forEach(name => {
+    channelsByName.set(name.toLowerCase(), definition);
+  });
+});
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Build a display name for an unregistered channel key
+ */
+function toDisplayName(key: string): string {
+  return key
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Resolve a channel by key or alias
+ * Missing values resolve to direct bookings; unregistered values get a
+ * generic definition keyed by their lower-cased name.
+ */
+export function getChannel(value: string | null | undefined): ChannelDefinition {
+  const name = value?.trim().toLowerCase() || DEFAULT_CHANNEL_KEY;
+  const registered = channelsByName.get(name);
+  if (registered) return registered;
+
+  return {
+    key: name,
+    aliases: [],
+    displayName: toDisplayName(value!.trim()),
+    color: UNKNOWN_CHANNEL_COLOR,
+    ratingScale: { overall: 5, category: 10 },
+    categories: {},
+    known: false,
+  };
+}
+
+/**
+ * Canonical key for a channel name or alias
+ */
+export function resolveChannelKey(value: string | null | undefined): string {
+  return getChannel(value).key;
+}
+
+/**
+ * Display name for a channel name or alias
+ */
+export function getChannelDisplayName(value: string | null | undefined): string {
+  return getChannel(value).displayName;
+}
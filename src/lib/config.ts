@@ -0,0 +1,317 @@
+/**
+ * Application Configuration
+ *
+ * Loads and validates server settings from environment variables.
+ * Every API route reads its settings from here, so staging and production
+ * can run against different Hostaway accounts without code changes.
+ *
+ * Environment variables:
+ * - REVIEWS_DATA_SOURCE: `live` (Hostaway API), `mock` (bundled sample data)
+ *   or `file` (a Hostaway-shaped JSON file). Defaults to `mock`.
+ * - HOSTAWAY_ACCOUNT_ID, HOSTAWAY_API_KEY: required in `live` mode
+ * - HOSTAWAY_BASE_URL: defaults to https://api.hostaway.com/v1
+ * - HOSTAWAY_TIMEZONE: IANA timezone Hostaway timestamps are written in for
+ *   listings that are not in the property catalog
+ *   (default UTC)
+ * - REVIEWS_DATA_FILE: required in `file` mode
+ * - GOOGLE_PLACES_API_KEY: enables Google reviews in `live` mode
+ *   (`mock` mode uses recorded Places API responses instead)
+ * - GOOGLE_PLACES_BASE_URL: defaults to https://maps.googleapis.com/maps/api/place
+ * - REVIEW_SOURCES: comma-separated review source IDs to sync (e.g. `hostaway,google`);
+ *   unset means every source enabled by the settings above
+ * - REVIEWS_CACHE_TTL: seconds before stored reviews are re-synced (default 300)
+ * - REVIEWS_FULL_SYNC_INTERVAL: seconds between full syncs, which also pick
+ *   up edits to older reviews (default 86400; 0 makes every sync full)
+ * - DATA_DIR: directory for local stores (default .data)
+ * - APPROVALS_FILE: approval store location (default <DATA_DIR>/approved-reviews.json)
+ * - REVIEW_STORE_FILE: review store location
+ *   (default <DATA_DIR>/review-store.<REVIEWS_DATA_SOURCE>.json)
+ * - PROPERTY_CATALOG_FILE: synced listing store location
+ *   (default <DATA_DIR>/property-catalog.<REVIEWS_DATA_SOURCE>.json)
+ * - SITE_URL: public origin of the site, used for canonical URLs and
+ *   structured data (default http://localhost:3000)
+ * - RATING_METHOD: `bayesian` or `mean`, how property ratings are calculated
+ *   (default bayesian, see `src/lib/rating.ts`)
+ * - RATING_PRIOR_WEIGHT: reviews' worth of weight of the Bayesian prior (default 5)
+ * - RATING_PRIOR_MEAN: fixed Bayesian prior out of 5 (default: portfolio mean)
+ * - RATING_MIN_REVIEWS: reviews a property needs before it is rated (default 3)
+ * - RATING_INCLUDE_UNAPPROVED: `true` to score published reviews that are not
+ *   approved for display (default false)
+ */
+
+import path from 'path';
+import { isValidTimeZone } from '@/lib/dates';
+import { DEFAULT_RATING_SETTINGS } from '@/lib/rating';
+import type { RatingMethod, RatingSettings } from '@/types/rating';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DataSourceMode = 'live' | 'mock' | 'file';
+
+export interface HostawayConfig {
+  accountId: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+export interface GooglePlacesConfig {
+  apiKey: string;
+  baseUrl: string;
+}
+
+export interface AppConfig {
+  dataSource: DataSourceMode;
+  hostaway: HostawayConfig | null;
+  /** Default timezone of Hostaway's wall-clock timestamps */
+  hostawayTimeZone: string;
+  google: GooglePlacesConfig | null;
+  /** Allow-list of review source IDs, null for all */
+  enabledSources: string[] | null;
+  reviewsDataFile: string | null;
+  cacheTtlSeconds: number;
+  /** Seconds after which the next sync is a full one */
+  fullSyncIntervalSeconds: number;
+  dataDir: string;
+  approvalsFile: string;
+  reviewStoreFile: string;
+  propertyCatalogFile: string;
+  /** Public origin without a trailing slash, e.g. https://reviews.example.com */
+  siteUrl: string;
+  /** How property ratings are calculated */
+  rating: RatingSettings;
+}
+
+/**
+ * Raised when required settings are missing or invalid
+ */
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+const DATA_SOURCE_MODES: DataSourceMode[] = ['live', 'mock', 'file'];
+const RATING_METHODS: RatingMethod[] = ['bayesian', 'mean'];
+const DEFAULT_HOSTAWAY_BASE_URL = 'https://api.hostaway.com/v1';
+const DEFAULT_HOSTAWAY_TIMEZONE = 'UTC';
+const DEFAULT_GOOGLE_PLACES_BASE_URL = 'https://maps.googleapis.com/maps/api/place';
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+const DEFAULT_FULL_SYNC_INTERVAL_SECONDS = 24 * 60 * 60;
+const DEFAULT_DATA_DIR = '.data';
+const DEFAULT_SITE_URL = 'http://localhost:3000';
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Read an environment variable, treating blank values as unset
+ */
+function readEnv(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Resolve a path relative to the project root
+ */
+function resolvePath(value: string): string {
+  return path.isAbsolute(value) ? value : path.join(process.cwd(), value);
+}
+
+/**
+ * Build and validate configuration from an environment object.
+ * Collects every problem before throwing so they can be fixed in one pass.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const issues: string[] = [];
+
+  // Data source mode
+  const rawMode = readEnv(env, 'REVIEWS_DATA_SOURCE') ?? 'mock';
+  const dataSource = rawMode.toLowerCase() as DataSourceMode;
+  if (!DATA_SOURCE_MODES.includes(dataSource)) {
+    issues.push(
+      `REVIEWS_DATA_SOURCE must be one of ${DATA_SOURCE_MODES.join(', ')} (got "${rawMode}")`
+    );
+  }
+
+  // Hostaway credentials
+  const accountId = readEnv(env, 'HOSTAWAY_ACCOUNT_ID');
+  const apiKey = readEnv(env, 'HOSTAWAY_API_KEY');
+  const baseUrl = readEnv(env, 'HOSTAWAY_BASE_URL') ?? DEFAULT_HOSTAWAY_BASE_URL;
+
+  if (dataSource === 'live') {
+    if (!accountId) issues.push('HOSTAWAY_ACCOUNT_ID is required when REVIEWS_DATA_SOURCE=live');
+    if (!apiKey) issues.push('HOSTAWAY_API_KEY is required when REVIEWS_DATA_SOURCE=live');
+  }
+  if (accountId && !/^\d+$/.test(accountId)) {
+    issues.push(`HOSTAWAY_ACCOUNT_ID must be numeric (got "${accountId}")`);
+  }
+  try {
+    new URL(baseUrl);
+  } catch {
+    issues.push(`HOSTAWAY_BASE_URL must be a valid URL (got "${baseUrl}")`);
+  }
+
+  const hostawayTimeZone = readEnv(env, 'HOSTAWAY_TIMEZONE') ?? DEFAULT_HOSTAWAY_TIMEZONE;
+  if (!isValidTimeZone(hostawayTimeZone)) {
+    issues.push(`HOSTAWAY_TIMEZONE must be an IANA timezone such as Europe/London (got "${hostawayTimeZone}")`);
+  }
+
+  // Google Places (optional)
+  const googleApiKey = readEnv(env, 'GOOGLE_PLACES_API_KEY');
+  const googleBaseUrl = readEnv(env, 'GOOGLE_PLACES_BASE_URL') ?? DEFAULT_GOOGLE_PLACES_BASE_URL;
+  try {
+    new URL(googleBaseUrl);
+  } catch {
+    issues.push(`GOOGLE_PLACES_BASE_URL must be a valid URL (got "${googleBaseUrl}")`);
+  }
+
+  // Review source allow-list (IDs are checked against the source registry)
+  const rawSources = readEnv(env, 'REVIEW_SOURCES');
+  const enabledSources = rawSources
+    ? rawSources.split(',').map(id => id.trim().toLowerCase()).filter(Boolean)
+    : null;
+  if (enabledSources && enabledSources.length === 0) {
+    issues.push('REVIEW_SOURCES must list at least one review source');
+  }
+
+  // Review data file
+  const reviewsDataFile = readEnv(env, 'REVIEWS_DATA_FILE');
+  if (dataSource === 'file' && !reviewsDataFile) {
+    issues.push('REVIEWS_DATA_FILE is required when REVIEWS_DATA_SOURCE=file');
+  }
+
+  // Cache TTL
+  const rawTtl = readEnv(env, 'REVIEWS_CACHE_TTL');
+  const cacheTtlSeconds = rawTtl === undefined ? DEFAULT_CACHE_TTL_SECONDS : Number(rawTtl);
+  if (!Number.isInteger(cacheTtlSeconds) || cacheTtlSeconds < 0) {
+    issues.push(`REVIEWS_CACHE_TTL must be a non-negative whole number of seconds (got "${rawTtl}")`);
+  }
+
+  const rawFullSyncInterval = readEnv(env, 'REVIEWS_FULL_SYNC_INTERVAL');
+  const fullSyncIntervalSeconds = rawFullSyncInterval === undefined
+    ? DEFAULT_FULL_SYNC_INTERVAL_SECONDS
+    : Number(rawFullSyncInterval);
+  if (!Number.isInteger(fullSyncIntervalSeconds) || fullSyncIntervalSeconds < 0) {
+    issues.push(
+      `REVIEWS_FULL_SYNC_INTERVAL must be a non-negative whole number of seconds (got "${rawFullSyncInterval}")`
+    );
+  }
+
+  // Public site URL
+  const rawSiteUrl = readEnv(env, 'SITE_URL') ?? DEFAULT_SITE_URL;
+  let siteUrl = '';
+  try {
+    const url = new URL(rawSiteUrl);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      siteUrl = url.origin + url.pathname.replace(/\/+$/, '');
+    }
+  } catch {
+    // Reported below
+  }
+  if (!siteUrl) {
+    issues.push(`SITE_URL must be an http(s) URL (got "${rawSiteUrl}")`);
+  }
+
+  // Rating calculation
+  const rawRatingMethod = readEnv(env, 'RATING_METHOD') ?? DEFAULT_RATING_SETTINGS.method;
+  const ratingMethod = rawRatingMethod.toLowerCase() as RatingMethod;
+  if (!RATING_METHODS.includes(ratingMethod)) {
+    issues.push(`RATING_METHOD must be one of ${RATING_METHODS.join(', ')} (got "${rawRatingMethod}")`);
+  }
+
+  const rawPriorWeight = readEnv(env, 'RATING_PRIOR_WEIGHT');
+  const priorWeight = rawPriorWeight === undefined
+    ? DEFAULT_RATING_SETTINGS.priorWeight
+    : Number(rawPriorWeight);
+  if (!Number.isFinite(priorWeight) || priorWeight < 0) {
+    issues.push(`RATING_PRIOR_WEIGHT must be a non-negative number (got "${rawPriorWeight}")`);
+  }
+
+  const rawPriorMean = readEnv(env, 'RATING_PRIOR_MEAN');
+  const priorMean = rawPriorMean === undefined ? null : Number(rawPriorMean);
+  if (priorMean !== null && (!Number.isFinite(priorMean) || priorMean < 1 || priorMean > 5)) {
+    issues.push(`RATING_PRIOR_MEAN must be a number between 1 and 5 (got "${rawPriorMean}")`);
+  }
+
+  const rawMinReviews = readEnv(env, 'RATING_MIN_REVIEWS');
+  const minReviews = rawMinReviews === undefined
+    ? DEFAULT_RATING_SETTINGS.minReviews
+    : Number(rawMinReviews);
+  if (!Number.isInteger(minReviews) || minReviews < 1) {
+    issues.push(`RATING_MIN_REVIEWS must be a whole number of at least 1 (got "${rawMinReviews}")`);
+  }
+
+  const rawIncludeUnapproved = readEnv(env, 'RATING_INCLUDE_UNAPPROVED')?.toLowerCase();
+  if (rawIncludeUnapproved !== undefined && rawIncludeUnapproved !== 'true' &&
+      rawIncludeUnapproved !== 'false') {
+    issues.push(`RATING_INCLUDE_UNAPPROVED must be true or false (got "${rawIncludeUnapproved}")`);
+  }
+  const includeUnapproved = rawIncludeUnapproved === undefined
+    ? DEFAULT_RATING_SETTINGS.includeUnapproved
+    : rawIncludeUnapproved === 'true';
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  // Local stores; reviews and synced listings are kept per data source so
+  // sample data never mixes with live data
+  const dataDir = resolvePath(readEnv(env, 'DATA_DIR') ?? DEFAULT_DATA_DIR);
+  const approvalsFile = readEnv(env, 'APPROVALS_FILE');
+  const reviewStoreFile = readEnv(env, 'REVIEW_STORE_FILE');
+  const propertyCatalogFile = readEnv(env, 'PROPERTY_CATALOG_FILE');
+
+  return {
+    dataSource,
+    hostaway: accountId && apiKey ? { accountId, apiKey, baseUrl } : null,
+    hostawayTimeZone,
+    google: googleApiKey ? { apiKey: googleApiKey, baseUrl: googleBaseUrl } : null,
+    enabledSources,
+    reviewsDataFile: reviewsDataFile ? resolvePath(reviewsDataFile) : null,
+    cacheTtlSeconds,
+    fullSyncIntervalSeconds,
+    dataDir,
+    approvalsFile: approvalsFile
+      ? resolvePath(approvalsFile)
+      : path.join(dataDir, 'approved-reviews.json'),
+    reviewStoreFile: reviewStoreFile
+      ? resolvePath(reviewStoreFile)
+      : path.join(dataDir, `review-store.${dataSource}.json`),
+    propertyCatalogFile: propertyCatalogFile
+      ? resolvePath(propertyCatalogFile)
+      : path.join(dataDir, `property-catalog.${dataSource}.json`),
+    siteUrl,
+    rating: {
+      method: ratingMethod,
+      priorWeight,
+      priorMean,
+      minReviews,
+      includeUnapproved,
+    },
+  };
+}
+
+let cachedConfig: AppConfig | null = null;
+
+/**
+ * Get the validated configuration for this process
+ * Throws ConfigError on the first call if the environment is invalid
+ */
+export function getConfig(): AppConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig();
+  }
+  return cachedConfig;
+}
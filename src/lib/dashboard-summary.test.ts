@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildDashboardSummary } from '@/lib/dashboard-summary';
+import { DEFAULT_RATING_SETTINGS } from '@/lib/rating';
+import { buildReviewsResponse } from '@/lib/review-utils';
+import type { NormalizedReview } from '@/types/review';
+import { createReservation, createReview } from '@/test/fixtures';
+
+function review(
+  id: string,
+  propertyId: string,
+  overallRating: number,
+  overrides: Partial<NormalizedReview> = {}
+): NormalizedReview {
+  return createReview({ id, propertyId, overallRating, ...overrides });
+}
+
+function summarize(reviews: NormalizedReview[]) {
+  const { reviews: normalized, meta } = buildReviewsResponse(reviews);
+  return buildDashboardSummary(normalized, meta, DEFAULT_RATING_SETTINGS);
+}
+
+describe('buildDashboardSummary', () => {
+  it('counts every guest review in the stats, approved or not', () => {
+    const summary = summarize([
+      review('1', 'a', 5, { isApprovedForDisplay: true }),
+      review('2', 'a', 2),
+      review('3', 'b', 4, { status: 'pending' }),
+      review('4', 'b', 1, { type: 'host' }),
+    ]);
+
+    expect(summary.stats).toEqual({
+      totalReviews: 3,
+      approvedCount: 1,
+      fiveStarCount: 1,
+      lowRatingCount: 1,
+    });
+    expect(summary.publicRating.reviewCount).toBe(1);
+  });
+
+  it('ranks properties by their rating, not the plain average', () => {
+    const approved = { isApprovedForDisplay: true };
+    const summary = summarize([
+      review('single', 'a', 5, approved),
+      ...Array.from({ length: 40 }, (_, index) => review(`b${index}`, 'b', 4.8, approved)),
+    ]);
+
+    expect(summary.properties.map(entry => entry.property.id)).toEqual(['b', 'a']);
+    expect(summary.properties[1].rating.value).toBeNull();
+  });
+
+  it('breaks rating ties by review count and ranks unrated properties last', () => {
+    const approved = { isApprovedForDisplay: true };
+    const summary = summarize([
+      review('1', 'a', 4),
+      review('2', 'b', 4, approved),
+      review('3', 'b', 4, approved),
+      review('4', 'b', 4, approved),
+      review('5', 'c', 4, approved),
+      review('6', 'c', 4, approved),
+      review('7', 'c', 4, approved),
+      review('8', 'c', 4, approved),
+    ]);
+
+    expect(summary.properties.map(entry => [entry.property.id, entry.rating.value])).toEqual([
+      ['c', 4],
+      ['b', 4],
+      ['a', null],
+    ]);
+  });
+
+  it('summarizes stays of linked reviews only', () => {
+    const summary = summarize([
+      review('1', 'a', 5, { reservation: createReservation() }),
+      review('2', 'a', 4),
+    ]);
+
+    expect(summary.stays.linkedReviews).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Dashboard Summary
+ *
+ * Portfolio stats, per-property performance and stay insights for the
+ * manager dashboard. Properties are ranked by the rating calculator (see
+ * `src/lib/rating.ts`), so a single 5-star review cannot outrank forty 4.8s.
+ */
+
+import { calculateRating } from '@/lib/rating';
+import { calculatePropertyPerformance } from '@/lib/review-utils';
+import { calculateStayInsights } from '@/lib/stays';
+import type { DashboardStats, DashboardSummary } from '@/types/dashboard';
+import type { RatingSettings } from '@/types/rating';
+import type { NormalizedReview, PropertyInfo, PropertyPerformance } from '@/types/review';
+
+/**
+ * Totals over every guest review
+ */
+export function calculateDashboardStats(reviews: NormalizedReview[]): DashboardStats {
+  const guestReviews = reviews.filter(review => review.type === 'guest');
+
+  return {
+    totalReviews: guestReviews.length,
+    approvedCount: guestReviews.filter(review => review.isApprovedForDisplay).length,
+    fiveStarCount: guestReviews.filter(review => review.overallRating >= 4.5).length,
+    lowRatingCount: guestReviews.filter(review => review.overallRating <= 2).length,
+  };
+}
+
+/**
+ * Performance of every property, highest rating first, then most reviewed
+ * (properties that are not rated yet last)
+ */
+export function rankPropertyPerformance(
+  reviews: NormalizedReview[],
+  properties: PropertyInfo[],
+  ratingSettings: RatingSettings
+): PropertyPerformance[] {
+  return properties
+    .map(property => calculatePropertyPerformance(reviews, property, ratingSettings))
+    .sort((a, b) =>
+      (b.rating.value ?? -Infinity) - (a.rating.value ?? -Infinity) ||
+      b.totalReviews - a.totalReviews
+    );
+}
+
+/**
+ * Everything the dashboard shows besides the review list
+ * `reviews` must carry the current approval state.
+ */
+export function buildDashboardSummary(
+  reviews: NormalizedReview[],
+  meta: DashboardSummary['meta'],
+  ratingSettings: RatingSettings
+): DashboardSummary {
+  const guestReviews = reviews.filter(review => review.type === 'guest');
+
+  return {
+    stats: calculateDashboardStats(reviews),
+    publicRating: calculateRating(guestReviews, guestReviews, ratingSettings),
+    properties: rankPropertyPerformance(reviews, meta.properties, ratingSettings),
+    stays: calculateStayInsights(reviews),
+    meta,
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getDayBounds, toUtcISOString } from '@/lib/dates';
+
+const iso = (time: number) => new Date(time).toISOString();
+
+describe('toUtcISOString', () => {
+  it('reads wall-clock time in the given timezone', () => {
+    expect(toUtcISOString('2024-07-01 09:30:00', 'Europe/London')).toBe('2024-07-01T08:30:00.000Z');
+    expect(toUtcISOString('2024-12-01 09:30:00', 'Europe/London')).toBe('2024-12-01T09:30:00.000Z');
+  });
+
+  it('keeps timestamps with an offset as they are', () => {
+    expect(toUtcISOString('2024-07-01T09:30:00+02:00', 'Europe/London')).toBe('2024-07-01T07:30:00.000Z');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(toUtcISOString('2024-02-31', 'UTC')).toBeNull();
+  });
+});
+
+describe('getDayBounds', () => {
+  it('covers the whole day in the timezone', () => {
+    const day = getDayBounds('2024-07-01', 'Europe/London')!;
+
+    expect(iso(day.start)).toBe('2024-06-30T23:00:00.000Z');
+    expect(iso(day.end)).toBe('2024-07-01T22:59:59.999Z');
+  });
+
+  it('defaults to UTC days', () => {
+    const day = getDayBounds('2024-07-01')!;
+
+    expect(iso(day.start)).toBe('2024-07-01T00:00:00.000Z');
+    expect(iso(day.end)).toBe('2024-07-01T23:59:59.999Z');
+  });
+
+  it('follows clock changes', () => {
+    const day = getDayBounds('2024-03-31', 'Europe/Paris')!;
+
+    expect(iso(day.start)).toBe('2024-03-30T23:00:00.000Z');
+    expect(day.end - day.start + 1).toBe(23 * 60 * 60 * 1000);
+  });
+
+  it('returns null for anything but a calendar date', () => {
+    expect(getDayBounds('2024-07-01T10:00:00Z')).toBeNull();
+    expect(getDayBounds('2024-13-01')).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Date Utilities
+ *
+ * Timezone-aware parsing for upstream timestamps. Hostaway reports
+ * `submittedAt` as wall-clock time (`2024-11-15 14:30:00`) without an
+ * offset, so it has to be read in the listing's timezone rather than the
+ * timezone of whichever server happens to run the sync.
+ *
+ * Uses only `Intl`, so it works the same on the server and in the browser.
+ */
+
+// `YYYY-MM-DD`, optionally followed by ` HH:mm[:ss[.sss]]` or `THH:mm...`
+const WALL_CLOCK_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+
+// Ends in `Z` or an explicit offset such as `+01:00`
+const HAS_OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether a string is a timezone name the runtime recognises (e.g. `Europe/Paris`)
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffset(timeZone: string, instant: number): number {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(new Date(instant)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  const wallClock = Date.UTC(
+    parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Parse an upstream timestamp to a UTC ISO string
+ * - Strings with `Z` or an offset are taken as-is
+ * - Wall-clock strings are read in `timeZone` (DST-aware)
+ * Returns null if the value cannot be parsed.
+ */
+export function toUtcISOString(value: string, timeZone = 'UTC'): string | null {
+  const trimmed = value.trim();
+
+  if (HAS_OFFSET_PATTERN.test(trimmed)) {
+    const date = new Date(trimmed.replace(' ', 'T'));
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const match = trimmed.match(WALL_CLOCK_PATTERN);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', millis = '0'] = match;
+  const wallClock = Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour), Number(minute), Number(second), Number(millis.padEnd(3, '0'))
+  );
+
+  // Reject impossible dates such as 2024-02-31 (Date.UTC would roll them over)
+  const check = new Date(wallClock);
+  if (check.getUTCMonth() !== Number(month) - 1 || check.getUTCDate() !== Number(day) ||
+      check.getUTCHours() !== Number(hour) || check.getUTCMinutes() !== Number(minute)) {
+    return null;
+  }
+
+  // Guess with the offset at the wall-clock instant, then correct once for
+  // times near a DST change
+  let instant = wallClock - getTimeZoneOffset(timeZone, wallClock);
+  const corrected = wallClock - getTimeZoneOffset(timeZone, instant);
+  if (corrected !== instant) instant = corrected;
+
+  return new Date(instant).toISOString();
+}
+
+/**
+ * First and last millisecond of a calendar day (`YYYY-MM-DD`) in `timeZone`
+ * Days with a DST change are 23 or 25 hours long. Returns null if the date
+ * cannot be parsed.
+ */
+export function getDayBounds(date: string, timeZone = 'UTC'): { start: number; end: number } | null {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const start = match ? toUtcISOString(date, timeZone) : null;
+  if (!match || !start) return null;
+
+  const nextDay = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + 1))
+    .toISOString()
+    .slice(0, 10);
+  const end = toUtcISOString(nextDay, timeZone)!;
+
+  return { start: new Date(start).getTime(), end: new Date(end).getTime() - 1 };
+}
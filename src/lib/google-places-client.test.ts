@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GooglePlacesApiError, GooglePlacesClient } from '@/lib/google-places-client';
+import type { GooglePlaceDetailsResponse } from '@/types/review';
+
+// Recorded Places API responses
+import recordedPlaceDetails from '@/data/google-place-details.json';
+
+const recorded = recordedPlaceDetails as Record<string, GooglePlaceDetailsResponse>;
+const PLACE_ID = 'ChIJ2dGMjMMEdkgRqVqkuXQkj7c';
+
+/**
+ * Client backed by a fetch stub that answers every request with `respond()`
+ */
+function createClient(respond: () => Response | Promise<Response>) {
+  const fetchStub = vi.fn<typeof fetch>(async () => respond());
+  const client = new GooglePlacesClient({
+    apiKey: 'test-key',
+    baseUrl: 'http://places.test/maps/api/place/',
+    fetch: fetchStub,
+  });
+  return { client, fetchStub };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function expectError(promise: Promise<unknown>, code: string, status?: number) {
+  const error: GooglePlacesApiError = await promise.then(
+    () => { throw new Error('Expected the request to fail'); },
+    e => e
+  );
+  expect(error).toBeInstanceOf(GooglePlacesApiError);
+  expect(error.code).toBe(code);
+  expect(error.status).toBe(status);
+  return error;
+}
+
+describe('GooglePlacesClient', () => {
+  it('requests the review fields of a place, newest first', async () => {
+    const { client, fetchStub } = createClient(() => json(recorded[PLACE_ID]));
+
+    await client.fetchPlaceReviews(PLACE_ID);
+
+    const url = new URL(String(fetchStub.mock.calls[0][0]));
+    expect(url.origin + url.pathname).toBe('http://places.test/maps/api/place/details/json');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      place_id: PLACE_ID,
+      fields: 'place_id,name,reviews',
+      reviews_sort: 'newest',
+      key: 'test-key',
+    });
+  });
+
+  it('returns the reviews of a recorded response', async () => {
+    const { client } = createClient(() => json(recorded[PLACE_ID]));
+
+    const reviews = await client.fetchPlaceReviews(PLACE_ID);
+
+    expect(reviews).toEqual(recorded[PLACE_ID].result!.reviews);
+    expect(reviews).toHaveLength(3);
+  });
+
+  it('returns no reviews for places without any', async () => {
+    const withoutReviews = { ...recorded[PLACE_ID], result: { name: 'Quiet place', place_id: PLACE_ID } };
+    const { client } = createClient(() => json(withoutReviews));
+    expect(await client.fetchPlaceReviews(PLACE_ID)).toEqual([]);
+  });
+
+  it('returns no reviews for ZERO_RESULTS', async () => {
+    const { client } = createClient(() => json({ status: 'ZERO_RESULTS' }));
+    expect(await client.fetchPlaceReviews(PLACE_ID)).toEqual([]);
+  });
+
+  it.each([
+    ['NOT_FOUND', 'not_found'],
+    ['REQUEST_DENIED', 'auth_failed'],
+    ['OVER_QUERY_LIMIT', 'rate_limited'],
+    ['INVALID_REQUEST', 'request_failed'],
+    ['UNKNOWN_ERROR', 'request_failed'],
+  ])('maps the %s body status to %s', async (status, code) => {
+    const { client } = createClient(() => json({ status, html_attributions: [] }));
+    await expectError(client.fetchPlaceReviews(PLACE_ID), code);
+  });
+
+  it('reports Google\'s error message', async () => {
+    const { client } = createClient(() => json({
+      status: 'REQUEST_DENIED',
+      error_message: 'The provided API key is invalid.',
+    }));
+
+    const error = await expectError(client.fetchPlaceReviews(PLACE_ID), 'auth_failed');
+    expect(error.message).toBe('The provided API key is invalid.');
+  });
+
+  it('rejects a body without a known status', async () => {
+    const { client } = createClient(() => json({ result: {} }));
+    await expectError(client.fetchPlaceReviews(PLACE_ID), 'invalid_response');
+  });
+
+  it.each([
+    [429, 'rate_limited'],
+    [403, 'request_failed'],
+    [500, 'request_failed'],
+  ])('maps HTTP %i to %s', async (status, code) => {
+    const { client } = createClient(() => json({}, status));
+    await expectError(client.fetchPlaceReviews(PLACE_ID), code, status);
+  });
+
+  it('reports invalid JSON', async () => {
+    const { client } = createClient(() => new Response('<html>', { status: 200 }));
+    await expectError(client.fetchPlaceReviews(PLACE_ID), 'invalid_response', 200);
+  });
+
+  it('reports network failures', async () => {
+    const { client } = createClient(() => {
+      throw new TypeError('fetch failed');
+    });
+
+    const error = await expectError(client.fetchPlaceReviews(PLACE_ID), 'network_error');
+    expect(error.message).toContain('fetch failed');
+  });
+});
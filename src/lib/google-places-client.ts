@@ -0,0 +1,160 @@
+/**
+ * Google Places API Client
+ *
+ * Fetches the reviews Google shows for a place via Place Details.
+ * Google returns at most 5 reviews per request; `reviews_sort=newest` is
+ * used so repeated syncs pick up the latest ones rather than the same
+ * "most relevant" five.
+ *
+ * Failures are surfaced as `GooglePlacesApiError`. The base URL and `fetch`
+ * implementation are injectable, so the client can be pointed at a local
+ * stand-in server.
+ */
+
+import type { GooglePlaceDetailsResponse, GooglePlaceReview } from '@/types/review';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GooglePlacesErrorCode =
+  | 'auth_failed'
+  | 'rate_limited'
+  | 'not_found'
+  | 'request_failed'
+  | 'network_error'
+  | 'invalid_response';
+
+/**
+ * Error raised for any failed interaction with the Places API
+ */
+export class GooglePlacesApiError extends Error {
+  readonly code: GooglePlacesErrorCode;
+  readonly status?: number;
+
+  constructor(message: string, code: GooglePlacesErrorCode, status?: number) {
+    super(message);
+    this.name = 'GooglePlacesApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface GooglePlacesClientOptions {
+  apiKey: string;
+  baseUrl: string;
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+// Only request what is needed, Place Details is billed per field group
+const DETAILS_FIELDS = 'place_id,name,reviews';
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class GooglePlacesClient {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: GooglePlacesClientOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Fetch the reviews Google returns for a place (newest first)
+   */
+  async fetchPlaceReviews(placeId: string): Promise<GooglePlaceReview[]> {
+    const data = await this.fetchPlaceDetails(placeId);
+    return getPlaceReviews(data, placeId);
+  }
+
+  /**
+   * Raw Place Details request for the review fields
+   */
+  async fetchPlaceDetails(placeId: string): Promise<GooglePlaceDetailsResponse> {
+    const params = new URLSearchParams({
+      place_id: placeId,
+      fields: DETAILS_FIELDS,
+      reviews_sort: 'newest',
+      key: this.apiKey,
+    });
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}/details/json?${params.toString()}`, {
+        cache: 'no-store',
+      });
+    } catch (error) {
+      throw new GooglePlacesApiError(
+        `Could not reach Google Places: ${error instanceof Error ? error.message : String(error)}`,
+        'network_error'
+      );
+    }
+
+    if (!response.ok) {
+      throw new GooglePlacesApiError(
+        `Google Places details request failed with status ${response.status}`,
+        response.status === 429 ? 'rate_limited' : 'request_failed',
+        response.status
+      );
+    }
+
+    try {
+      return await response.json() as GooglePlaceDetailsResponse;
+    } catch {
+      throw new GooglePlacesApiError(
+        'Google Places returned invalid JSON',
+        'invalid_response',
+        response.status
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Response Handling
+// ============================================================================
+
+/**
+ * Unwrap the reviews from a Place Details response
+ * Errors are reported in the body's `status`, not the HTTP status
+ */
+export function getPlaceReviews(
+  data: GooglePlaceDetailsResponse,
+  placeId: string
+): GooglePlaceReview[] {
+  switch (data?.status) {
+    case 'OK':
+      return Array.isArray(data.result?.reviews) ? data.result!.reviews! : [];
+    case 'ZERO_RESULTS':
+      return [];
+    case 'NOT_FOUND':
+      throw new GooglePlacesApiError(`Google place ${placeId} was not found`, 'not_found');
+    case 'REQUEST_DENIED':
+      throw new GooglePlacesApiError(
+        data.error_message || 'Google Places request was denied',
+        'auth_failed'
+      );
+    case 'OVER_QUERY_LIMIT':
+      throw new GooglePlacesApiError(
+        data.error_message || 'Google Places query limit exceeded',
+        'rate_limited'
+      );
+    case 'INVALID_REQUEST':
+    case 'UNKNOWN_ERROR':
+      throw new GooglePlacesApiError(
+        data.error_message || `Google Places request failed (${data.status})`,
+        'request_failed'
+      );
+    default:
+      throw new GooglePlacesApiError(
+        'Google Places returned an unexpected response',
+        'invalid_response'
+      );
+  }
+}
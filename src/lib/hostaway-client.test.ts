@@ -0,0 +1,314 @@
+import { describe, expect, it } from 'vitest';
+import { HostawayApiError, HostawayClient, type HostawayClientOptions } from '@/lib/hostaway-client';
+import type { HostawayApiResponse, HostawayReview } from '@/types/review';
+
+// Recorded Hostaway reviews response
+import mockReviews from '@/data/mock-reviews.json';
+
+const reviews = (mockReviews as HostawayApiResponse).result;
+const BASE_URL = 'http://hostaway.test/v1';
+
+interface StandInRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  authorization: string | null;
+  body: string | null;
+}
+
+type Handler = (request: StandInRequest) => Response | undefined;
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Local stand-in for the Hostaway API
+ * Issues numbered tokens and serves `records` from `/reviews` by
+ * limit/offset. `handlers` run first, in order, and can answer a request
+ * by returning a response.
+ */
+function createStandIn(records: HostawayReview[] = reviews, handlers: Handler[] = []) {
+  const requests: StandInRequest[] = [];
+  let tokensIssued = 0;
+
+  const fetchImpl: typeof fetch = async (input, init) => {
+    const url = new URL(String(input));
+    const headers = new Headers(init?.headers);
+    const request: StandInRequest = {
+      method: init?.method ?? 'GET',
+      path: url.pathname.replace('/v1', ''),
+      params: Object.fromEntries(url.searchParams),
+      authorization: headers.get('Authorization'),
+      body: typeof init?.body === 'string' ? init.body : null,
+    };
+    requests.push(request);
+
+    for (const handler of handlers) {
+      const response = handler(request);
+      if (response) return response;
+    }
+
+    if (request.path === '/accessTokens') {
+      tokensIssued++;
+      return json({ token_type: 'Bearer', expires_in: 3600, access_token: `token-${tokensIssued}` });
+    }
+    if (request.path === '/reviews') {
+      const limit = Number(request.params.limit);
+      const offset = Number(request.params.offset);
+      return json({
+        status: 'success',
+        result: records.slice(offset, offset + limit),
+        count: records.length,
+        limit,
+        offset,
+      });
+    }
+    return json({ status: 'fail', message: 'Not found' }, 404);
+  };
+
+  const client = (options: Partial<HostawayClientOptions> = {}) => new HostawayClient({
+    accountId: '61148',
+    apiKey: 'secret',
+    baseUrl: `${BASE_URL}/`,
+    retryBaseDelayMs: 0,
+    fetch: fetchImpl,
+    ...options,
+  });
+
+  const apiRequests = () => requests.filter(r => r.path !== '/accessTokens');
+  const tokenRequests = () => requests.filter(r => r.path === '/accessTokens');
+
+  return { client, requests, apiRequests, tokenRequests };
+}
+
+/**
+ * Handler answering the first `times` matching requests with `respond()`
+ */
+function failFirst(path: string, times: number, respond: () => Response): Handler {
+  let remaining = times;
+  return request => {
+    if (request.path !== path || remaining === 0) return undefined;
+    remaining--;
+    return respond();
+  };
+}
+
+async function expectError(promise: Promise<unknown>, code: string, status?: number) {
+  const error: HostawayApiError = await promise.then(
+    () => { throw new Error('Expected the request to fail'); },
+    e => e
+  );
+  expect(error).toBeInstanceOf(HostawayApiError);
+  expect(error.code).toBe(code);
+  expect(error.status).toBe(status);
+  return error;
+}
+
+describe('HostawayClient', () => {
+  describe('authentication', () => {
+    it('exchanges the account ID and API key for a token', async () => {
+      const standIn = createStandIn();
+
+      await standIn.client().fetchReviews();
+
+      const [tokenRequest] = standIn.tokenRequests();
+      expect(tokenRequest.method).toBe('POST');
+      expect(Object.fromEntries(new URLSearchParams(tokenRequest.body!))).toEqual({
+        grant_type: 'client_credentials',
+        client_id: '61148',
+        client_secret: 'secret',
+        scope: 'general',
+      });
+      expect(standIn.apiRequests()[0].authorization).toBe('Bearer token-1');
+    });
+
+    it('reuses the token across requests', async () => {
+      const standIn = createStandIn();
+      const client = standIn.client();
+
+      await client.fetchReviews();
+      await client.fetchReviews();
+
+      expect(standIn.tokenRequests()).toHaveLength(1);
+    });
+
+    it('shares one token exchange between concurrent requests', async () => {
+      const standIn = createStandIn();
+      const client = standIn.client();
+
+      await Promise.all([client.fetchReviews(), client.fetchReviews()]);
+
+      expect(standIn.tokenRequests()).toHaveLength(1);
+    });
+
+    it('refreshes the token once on 401', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.authorization === 'Bearer token-1'
+          ? json({ status: 'fail', message: 'Token expired' }, 401)
+          : undefined,
+      ]);
+
+      const result = await standIn.client().fetchReviews();
+
+      expect(result).toHaveLength(reviews.length);
+      expect(standIn.tokenRequests()).toHaveLength(2);
+      expect(standIn.apiRequests().map(r => r.authorization)).toEqual(['Bearer token-1', 'Bearer token-2']);
+    });
+
+    it('fails when the refreshed token is rejected too', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/reviews' ? json({ status: 'fail' }, 401) : undefined,
+      ]);
+
+      await expectError(standIn.client().fetchReviews(), 'auth_failed', 401);
+      expect(standIn.tokenRequests()).toHaveLength(2);
+    });
+
+    it('fails when the credentials are rejected', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/accessTokens' ? json({ error: 'invalid_client' }, 403) : undefined,
+      ]);
+
+      await expectError(standIn.client().fetchReviews(), 'auth_failed', 403);
+      expect(standIn.apiRequests()).toHaveLength(0);
+    });
+
+    it('fails when the token response has no token', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/accessTokens' ? json({ token_type: 'Bearer' }) : undefined,
+      ]);
+
+      await expectError(standIn.client().fetchReviews(), 'invalid_response', 200);
+    });
+  });
+
+  describe('pagination', () => {
+    it('pages through every review with limit and offset', async () => {
+      const standIn = createStandIn();
+
+      const result = await standIn.client({ pageSize: 5 }).fetchReviews();
+
+      expect(result).toEqual(reviews);
+      expect(standIn.apiRequests().map(r => [r.params.limit, r.params.offset])).toEqual([
+        ['5', '0'], ['5', '5'], ['5', '10'], ['5', '15'],
+      ]);
+    });
+
+    it('stops once the reported count is reached', async () => {
+      const standIn = createStandIn(reviews.slice(0, 10));
+
+      const result = await standIn.client({ pageSize: 5 }).fetchReviews();
+
+      expect(result).toHaveLength(10);
+      expect(standIn.apiRequests()).toHaveLength(2);
+    });
+
+    it('returns nothing for an empty account', async () => {
+      const standIn = createStandIn([]);
+      expect(await standIn.client().fetchReviews()).toEqual([]);
+    });
+
+    it('rejects a page that is not a success', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/reviews'
+          ? json({ status: 'fail', result: [], message: 'Account suspended' })
+          : undefined,
+      ]);
+
+      const error = await expectError(standIn.client().fetchReviews(), 'invalid_response');
+      expect(error.message).toBe('Account suspended');
+    });
+
+    it('rejects invalid JSON', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/reviews' ? new Response('<html>', { status: 200 }) : undefined,
+      ]);
+
+      await expectError(standIn.client().fetchReviews(), 'invalid_response', 200);
+    });
+  });
+
+  describe('retries', () => {
+    it.each([429, 500, 503])('retries after a %i', async status => {
+      const standIn = createStandIn(reviews, [
+        failFirst('/reviews', 2, () => json({ status: 'error' }, status)),
+      ]);
+
+      const result = await standIn.client().fetchReviews();
+
+      expect(result).toHaveLength(reviews.length);
+      expect(standIn.apiRequests()).toHaveLength(3);
+    });
+
+    it('retries network failures', async () => {
+      const standIn = createStandIn(reviews, [
+        failFirst('/reviews', 1, () => { throw new TypeError('fetch failed'); }),
+      ]);
+
+      expect(await standIn.client().fetchReviews()).toHaveLength(reviews.length);
+    });
+
+    it('gives up after the configured retries', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/reviews' ? json({ status: 'error' }, 502) : undefined,
+      ]);
+
+      await expectError(standIn.client({ maxRetries: 2 }).fetchReviews(), 'upstream_error', 502);
+      expect(standIn.apiRequests()).toHaveLength(3);
+    });
+
+    it('reports rate limiting once retries run out', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/reviews' ? json({}, 429, { 'Retry-After': '0' }) : undefined,
+      ]);
+
+      await expectError(standIn.client({ maxRetries: 1 }).fetchReviews(), 'rate_limited', 429);
+    });
+
+    it('reports network failures once retries run out', async () => {
+      const standIn = createStandIn(reviews, [
+        () => { throw new TypeError('fetch failed'); },
+      ]);
+
+      const error = await expectError(standIn.client({ maxRetries: 1 }).fetchReviews(), 'network_error');
+      expect(error.message).toContain('fetch failed');
+    });
+
+    it('does not retry other client errors', async () => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/reviews' ? json({ status: 'fail' }, 400) : undefined,
+      ]);
+
+      await expectError(standIn.client().fetchReviews(), 'request_failed', 400);
+      expect(standIn.apiRequests()).toHaveLength(1);
+    });
+
+    it('waits as long as Retry-After asks within the limit', async () => {
+      const standIn = createStandIn(reviews, [
+        failFirst('/reviews', 1, () => json({}, 429, { 'Retry-After': '0.05' })),
+      ]);
+
+      const started = Date.now();
+      await standIn.client().fetchReviews();
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+      expect(standIn.apiRequests()).toHaveLength(2);
+    });
+
+    it.each([
+      ['seconds', '3600'],
+      ['an HTTP date', new Date(Date.now() + 60 * 60 * 1000).toUTCString()],
+    ])('fails at once when Retry-After in %s exceeds the limit', async (_, retryAfter) => {
+      const standIn = createStandIn(reviews, [
+        request => request.path === '/reviews' ? json({}, 429, { 'Retry-After': retryAfter }) : undefined,
+      ]);
+
+      await expectError(standIn.client({ maxRetryDelayMs: 1000 }).fetchReviews(), 'rate_limited', 429);
+      expect(standIn.apiRequests()).toHaveLength(1);
+    });
+  });
+});
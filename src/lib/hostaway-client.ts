@@ -0,0 +1,354 @@
+/**
+ * Hostaway API Client
+ *
+ * Handles authentication and data access against the Hostaway public API:
+ * - Client-credentials token exchange using the account ID and API key
+ * - Access token caching with refresh on expiry or 401
+ * - `limit`/`offset` pagination across all result pages
+ * - Retries with exponential backoff on 429 and 5xx responses
+ *
+ * Failures are surfaced as `HostawayApiError` so callers can decide how to
+ * respond instead of silently receiving fallback data.
+ *
+ * The base URL and `fetch` implementation are injectable, so the client can
+ * be pointed at a local stand-in server.
+ */
+
+import type { HostawayReview } from '@/types/review';
+import type { HostawayListing } from '@/types/property';
+import type { HostawayReservation } from '@/types/reservation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HostawayErrorCode =
+  | 'auth_failed'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'request_failed'
+  | 'network_error'
+  | 'invalid_response';
+
+/**
+ * Error raised for any failed interaction with the Hostaway API
+ */
+export class HostawayApiError extends Error {
+  readonly code: HostawayErrorCode;
+  readonly status?: number;
+
+  constructor(message: string, code: HostawayErrorCode, status?: number) {
+    super(message);
+    this.name = 'HostawayApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface HostawayClientOptions {
+  accountId: string;
+  apiKey: string;
+  baseUrl: string;
+  /** Records requested per page (default 100) */
+  pageSize?: number;
+  /** Retry attempts for 429/5xx/network failures (default 3) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in ms (default 500) */
+  retryBaseDelayMs?: number;
+  /**
+   * Longest wait before a retry in ms (default 30000). A `Retry-After`
+   * asking for longer ends the retries instead of holding the request open.
+   */
+  maxRetryDelayMs?: number;
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+interface AccessToken {
+  value: string;
+  expiresAt: number;
+}
+
+interface HostawayPagedResponse<T> {
+  status: 'success' | 'fail' | 'error';
+  result: T[];
+  count?: number;
+  limit?: number;
+  offset?: number;
+  message?: string;
+}
+
+// Refresh tokens this long before they actually expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Upper bound on pages fetched in one call, guards against a misbehaving API
+const MAX_PAGES = 1000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a response status is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class HostawayClient {
+  private readonly accountId: string;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly pageSize: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  private token: AccessToken | null = null;
+  private pendingToken: Promise<AccessToken> | null = null;
+
+  constructor(options: HostawayClientOptions) {
+    this.accountId = options.accountId;
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.pageSize = options.pageSize ?? 100;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 30 * 1000;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Fetch every review for the account, following pagination
+   */
+  async fetchReviews(): Promise<HostawayReview[]> {
+    return this.fetchAllPages<HostawayReview>('/reviews');
+  }
+
+  /**
+   * Fetch every listing for the account, following pagination
+   */
+  async fetchListings(): Promise<HostawayListing[]> {
+    return this.fetchAllPages<HostawayListing>('/listings');
+  }
+
+  /**
+   * Fetch every reservation for the account, following pagination
+   */
+  async fetchReservations(): Promise<HostawayReservation[]> {
+    return this.fetchAllPages<HostawayReservation>('/reservations');
+  }
+
+  /**
+   * Get a valid access token, exchanging credentials if needed.
+   * Concurrent callers share a single in-flight exchange.
+   */
+  async getAccessToken(forceRefresh = false): Promise<string> {
+    if (!forceRefresh && this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    if (!this.pendingToken) {
+      this.pendingToken = this.exchangeToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+
+    this.token = await this.pendingToken;
+    return this.token.value;
+  }
+
+  /**
+   * Perform the client-credentials token exchange
+   */
+  private async exchangeToken(): Promise<AccessToken> {
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: this.accountId,
+      client_secret: this.apiKey,
+      scope: 'general',
+    });
+
+    const response = await this.sendWithRetry(() =>
+      this.fetchImpl(`${this.baseUrl}/accessTokens`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Cache-control': 'no-cache',
+        },
+        body: body.toString(),
+        cache: 'no-store',
+      })
+    );
+
+    if (!response.ok) {
+      throw new HostawayApiError(
+        `Hostaway token exchange failed with status ${response.status}`,
+        'auth_failed',
+        response.status
+      );
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!data || typeof data.access_token !== 'string') {
+      throw new HostawayApiError(
+        'Hostaway token response did not include an access token',
+        'invalid_response',
+        response.status
+      );
+    }
+
+    const expiresInMs = (Number(data.expires_in) || 3600) * 1000;
+    return {
+      value: data.access_token,
+      expiresAt: Date.now() + Math.max(0, expiresInMs - TOKEN_EXPIRY_MARGIN_MS),
+    };
+  }
+
+  /**
+   * Fetch all pages of a list endpoint using limit/offset
+   */
+  private async fetchAllPages<T>(
+    path: string,
+    params: Record<string, string> = {}
+  ): Promise<T[]> {
+    const results: T[] = [];
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const offset = page * this.pageSize;
+      const data = await this.get<HostawayPagedResponse<T>>(path, {
+        ...params,
+        limit: String(this.pageSize),
+        offset: String(offset),
+      });
+
+      if (data.status !== 'success' || !Array.isArray(data.result)) {
+        throw new HostawayApiError(
+          data.message || `Unexpected response from Hostaway ${path}`,
+          'invalid_response'
+        );
+      }
+
+      results.push(...data.result);
+
+      const total = typeof data.count === 'number' ? data.count : undefined;
+      const isLastPage = data.result.length < this.pageSize ||
+        (total !== undefined && results.length >= total);
+      if (isLastPage) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Authenticated GET request returning parsed JSON.
+   * A 401 triggers a single token refresh and retry.
+   */
+  private async get<T>(path: string, params: Record<string, string>): Promise<T> {
+    const url = `${this.baseUrl}${path}?${new URLSearchParams(params).toString()}`;
+
+    const send = async (token: string) =>
+      this.sendWithRetry(() =>
+        this.fetchImpl(url, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            'Cache-control': 'no-cache',
+          },
+          cache: 'no-store',
+        })
+      );
+
+    let response = await send(await this.getAccessToken());
+    if (response.status === 401) {
+      response = await send(await this.getAccessToken(true));
+    }
+
+    if (!response.ok) {
+      const code: HostawayErrorCode =
+        response.status === 401 || response.status === 403 ? 'auth_failed'
+          : response.status === 429 ? 'rate_limited'
+            : response.status >= 500 ? 'upstream_error'
+              : 'request_failed';
+      throw new HostawayApiError(
+        `Hostaway ${path} request failed with status ${response.status}`,
+        code,
+        response.status
+      );
+    }
+
+    try {
+      return await response.json() as T;
+    } catch {
+      throw new HostawayApiError(
+        `Hostaway ${path} returned invalid JSON`,
+        'invalid_response',
+        response.status
+      );
+    }
+  }
+
+  /**
+   * Send a request, retrying with exponential backoff on 429/5xx and
+   * network failures. The final response is returned as-is for the caller
+   * to interpret, including when the server asks to wait longer than
+   * `maxRetryDelayMs`.
+   */
+  private async sendWithRetry(send: () => Promise<Response>): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+
+      try {
+        response = await send();
+      } catch (error) {
+        if (attempt >= this.maxRetries) {
+          throw new HostawayApiError(
+            `Could not reach Hostaway: ${error instanceof Error ? error.message : String(error)}`,
+            'network_error'
+          );
+        }
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== undefined && retryAfter > this.maxRetryDelayMs) {
+        return response;
+      }
+      await sleep(retryAfter ?? this.backoffDelay(attempt));
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at `maxRetryDelayMs`
+   */
+  private backoffDelay(attempt: number): number {
+    const base = this.retryBaseDelayMs * 2 ** attempt;
+    return Math.min(base + Math.random() * this.retryBaseDelayMs, this.maxRetryDelayMs);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getReviewIssueKeys } from '@/lib/issues';
+import type { NormalizedReview } from '@/types/review';
+import { createReview } from '@/test/fixtures';
+
+function issuesOf(content: string, type: NormalizedReview['type'] = 'guest'): string[] {
+  return getReviewIssueKeys(createReview({ type, content }));
+}
+
+describe('getReviewIssueKeys', () => {
+  it.each([
+    ['The wifi kept dropping and was unreliable.', 'wifi'],
+    ['The wifi didn\'t work for two days.', 'wifi'],
+    ['There was no hot water in the mornings.', 'hot_water'],
+    ['Water pressure in the shower was poor.', 'hot_water'],
+    ['The sheets were not clean when we arrived.', 'cleanliness'],
+    ['Loud music from the bar downstairs every night.', 'noise'],
+    ['The check-in instructions were confusing.', 'check_in'],
+    ['Not the cleanest apartment.', 'cleanliness'],
+    ['The kitchen was not very clean.', 'cleanliness'],
+  ])('tags "%s" as %s', (sentence, issue) => {
+    expect(issuesOf(sentence)).toContain(issue);
+  });
+
+  it.each([
+    'No problems with the wifi at all.',
+    'The wifi was fast and never dropped.',
+    'Check-in was smooth, no issues whatsoever.',
+    'Hot water was never a problem.',
+    'We could not fault the cleanliness.',
+    'The bed was not uncomfortable.',
+    'Would stay again, no complaints about noise.',
+  ])('does not tag praise: "%s"', sentence => {
+    expect(issuesOf(sentence)).toEqual([]);
+  });
+
+  it('does not read every mention of water as a hot water issue', () => {
+    expect(issuesOf('Water bottles were provided, not sure why people complain.'))
+      .not.toContain('hot_water');
+  });
+
+  it('does not carry a cue across clauses', () => {
+    expect(issuesOf('Great natural light but the wifi was slow.')).toEqual(['wifi']);
+  });
+
+  it('skips host reviews', () => {
+    expect(issuesOf('The guest left the place dirty.', 'host')).toEqual([]);
+  });
+});
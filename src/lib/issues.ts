@@ -0,0 +1,553 @@
+/**
+ * Issue Detection
+ *
+ * Finds recurring problems in guest review text offline, without any
+ * external service. Text is split into sentences, sentences into clauses
+ * (at commas, semicolons and "but") and clauses into word tokens
+ * (lowercased, accents and apostrophes dropped, hyphens split, so
+ * "Check-in" reads "check in"), and each clause is matched against a
+ * curated hospitality lexicon:
+ *
+ * - topic terms ("wifi", "hot water", "check in") only count with a
+ *   complaint cue within a few words of the same clause: a complaint word
+ *   ("unreliable", "issues with"), a negated positive ("didn't work",
+ *   "not very clean", "not the cleanest") or "no"/"without" right before
+ *   the term ("no hot water")
+ * - complaint terms ("noisy", "dirty", "broken") count on their own unless
+ *   negated ("not noisy", "no noise", "no complaints about the noise")
+ *
+ * Negated cues read as praise: "no issues", "never a problem" and "not
+ * uncomfortable" are not complaints.
+ *
+ * Both the public text and private notes are read; host reviews (about
+ * guests) are skipped. Complaint sentences are also broken into two- and
+ * three-word phrases (n-grams without stop words), so phrases that keep
+ * coming up but are not in the lexicon can be surfaced and added to it.
+ *
+ * Safe to import from client components.
+ */
+
+import { getPeriods, getReviewPeriod } from '@/lib/analytics';
+import type {
+  IssueDefinition,
+  IssuePhrase,
+  IssueQuery,
+  IssueReport,
+  IssueSummary,
+  ReviewIssueMatch,
+} from '@/types/issues';
+import type { NormalizedReview } from '@/types/review';
+
+// ============================================================================
+// Lexicon
+// ============================================================================
+
+export const ISSUE_LEXICON: IssueDefinition[] = [
+  {
+    key: 'noise',
+    label: 'Noise',
+    terms: ['soundproofing', 'sound insulation', 'traffic', 'construction', 'music'],
+    complaints: ['noise', 'noises', 'noisy', 'loud', 'thin walls'],
+  },
+  {
+    key: 'wifi',
+    label: 'Wi-Fi',
+    terms: ['wifi', 'wi fi', 'internet', 'connection', 'signal', 'broadband'],
+    complaints: [],
+  },
+  {
+    key: 'hot_water',
+    label: 'Hot water & shower',
+    terms: ['hot water', 'water pressure', 'shower', 'shower pressure', 'boiler'],
+    complaints: ['cold shower', 'lukewarm'],
+  },
+  {
+    key: 'check_in',
+    label: 'Check-in',
+    terms: [
+      'check in', 'checkin', 'key', 'keys', 'key box', 'keybox', 'lockbox', 'lock box',
+      'access code', 'door code', 'instructions', 'arrival',
+    ],
+    complaints: ['locked out'],
+  },
+  {
+    key: 'cleanliness',
+    label: 'Cleanliness',
+    terms: [
+      'clean', 'cleaned', 'cleanest', 'cleaning', 'cleanliness', 'sheets', 'bedding', 'carpet',
+      'floor', 'floors',
+    ],
+    complaints: [
+      'dirty', 'dusty', 'dust', 'stain', 'stains', 'stained', 'mould', 'mold', 'mouldy',
+      'moldy', 'unclean', 'filthy', 'grimy',
+    ],
+  },
+  {
+    key: 'smell',
+    label: 'Smell',
+    terms: ['smell', 'smells', 'smelled', 'odour', 'odor'],
+    complaints: ['smelly', 'musty', 'stank', 'stink', 'stinks', 'damp'],
+  },
+  {
+    key: 'pests',
+    label: 'Pests',
+    terms: [],
+    complaints: [
+      'bugs', 'bed bugs', 'bedbugs', 'cockroach', 'cockroaches', 'mice', 'mouse', 'rats',
+      'ants', 'insects', 'pests',
+    ],
+  },
+  {
+    key: 'heating_cooling',
+    label: 'Heating & air conditioning',
+    terms: [
+      'heating', 'heater', 'radiator', 'radiators', 'air conditioning', 'ac', 'aircon',
+      'air con', 'fan', 'temperature', 'thermostat',
+    ],
+    complaints: ['freezing', 'stuffy', 'too hot', 'too cold', 'sweltering'],
+  },
+  {
+    key: 'maintenance',
+    label: 'Broken or faulty fittings',
+    terms: [
+      'tv', 'washing machine', 'washer', 'dryer', 'dishwasher', 'oven', 'fridge', 'toilet',
+      'lock', 'light', 'lights', 'door', 'window', 'windows', 'appliance', 'appliances',
+      'tap', 'sink',
+    ],
+    complaints: ['broken', 'faulty', 'leak', 'leaking', 'leaky', 'out of order'],
+  },
+  {
+    key: 'bed',
+    label: 'Bed comfort',
+    terms: ['bed', 'beds', 'mattress', 'pillow', 'pillows', 'sofa bed'],
+    complaints: ['lumpy', 'saggy'],
+  },
+  {
+    key: 'supplies',
+    label: 'Supplies & amenities',
+    terms: [
+      'towels', 'toiletries', 'toilet paper', 'soap', 'shampoo', 'linens', 'coffee',
+      'coffee machine', 'kettle', 'hairdryer', 'hair dryer', 'iron', 'utensils', 'cookware',
+    ],
+    complaints: [],
+  },
+  {
+    key: 'space',
+    label: 'Space & layout',
+    terms: ['space', 'layout', 'storage'],
+    complaints: ['cramped', 'tiny', 'too small', 'claustrophobic'],
+  },
+  {
+    key: 'access',
+    label: 'Stairs & access',
+    terms: ['stairs', 'staircase', 'steps', 'lift', 'elevator', 'luggage'],
+    complaints: [],
+  },
+  {
+    key: 'accuracy',
+    label: 'Listing accuracy',
+    terms: ['photos', 'pictures', 'pics', 'listing', 'description', 'advertised'],
+    complaints: ['misleading', 'not as described', 'not as advertised', 'not as pictured'],
+  },
+  {
+    key: 'communication',
+    label: 'Host communication',
+    terms: ['host', 'communication', 'response', 'responses', 'reply', 'replies', 'messages', 'team'],
+    complaints: ['unresponsive', 'no response', 'no reply'],
+  },
+  {
+    key: 'safety',
+    label: 'Neighbourhood & safety',
+    terms: ['area', 'neighbourhood', 'neighborhood', 'building', 'entrance'],
+    complaints: ['unsafe', 'dangerous', 'sketchy'],
+  },
+  {
+    key: 'value',
+    label: 'Value for money',
+    terms: ['price', 'value', 'cost', 'money', 'fees', 'cleaning fee'],
+    complaints: ['overpriced', 'expensive', 'not worth'],
+  },
+];
+
+export const ISSUE_KEYS = ISSUE_LEXICON.map(issue => issue.key);
+
+/**
+ * Display name of an issue key
+ */
+export function getIssueLabel(key: string): string {
+  return ISSUE_LEXICON.find(issue => issue.key === key)?.label ?? key;
+}
+
+// Words near a topic term that make it a complaint, unless negated
+const COMPLAINT_CUES = [
+  'broken', 'issue', 'issues', 'problem', 'problems', 'poor',
+  'bad', 'terrible', 'awful', 'horrible', 'slow', 'unreliable', 'intermittent', 'patchy',
+  'confusing', 'confused', 'unclear', 'difficult', 'hard', 'tricky', 'struggle', 'struggled',
+  'struggling', 'challenging', 'weak', 'lack', 'lacked', 'lacking', 'missing', 'limited',
+  'disappointing', 'disappointed', 'complaint', 'complaints', 'annoying', 'uncomfortable', 'faulty',
+  'stopped', 'cold', 'dirty', 'worse', 'worst',
+  'would have appreciated', 'could be clearer', 'could be better', 'could have been',
+  'could use', 'provide more', 'ran out', 'run out', 'larger than', 'smaller than',
+];
+
+// Words before a complaint term or cue that cancel it ("no noise", "not dirty")
+const NEGATORS = new Set([
+  'no', 'not', 'never', 'without', 'zero', 'hardly', 'wasnt', 'werent', 'isnt', 'arent',
+  'didnt', 'doesnt', 'dont', 'couldnt', 'cant', 'wont',
+]);
+
+// Words that are complaint cues when negated ("didn't work", "not the cleanest")
+const POSITIVE_WORDS = new Set([
+  'work', 'works', 'worked', 'working', 'clean', 'cleaned', 'cleanest', 'hot', 'warm',
+  'comfortable', 'enough',
+  'easy', 'clear', 'fast', 'strong', 'reliable', 'responsive', 'helpful', 'good', 'great',
+  'functional', 'available',
+]);
+
+// Words right before a topic term that report it missing ("no wifi")
+const ABSENCE_WORDS = new Set(['no', 'without', 'zero']);
+
+// How many words apart a topic term and a complaint cue may be, within a clause
+const CUE_WINDOW = 5;
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'during',
+  'each', 'even', 'every', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'here', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'most', 'much',
+  'my', 'of', 'on', 'once', 'only', 'or', 'other', 'our', 'out', 'over', 'quite', 'really',
+  'she', 'so', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'though', 'through', 'to', 'too', 'up', 'us',
+  'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will',
+  'with', 'would', 'you', 'your',
+  // Words every review uses, which say nothing about an issue
+  'apartment', 'flat', 'place', 'property', 'studio', 'loft', 'stay', 'stayed', 'stays',
+  'night', 'nights', 'day', 'days', 'week', 'weeks', 'time', 'bit', 'lot', 'overall',
+  'great', 'good', 'nice', 'lovely', 'little', 'minor', 'slightly', 'otherwise',
+]);
+
+/**
+ * Lowercase word tokens of a text; accents and apostrophes are dropped and
+ * anything else splits words ("Wi-Fi wasn't" becomes ["wi", "fi", "wasnt"])
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Sentences of a text, with their closing punctuation
+ */
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]*/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Token lists of a sentence's clauses, split at commas, semicolons and "but"
+ * so a cue in one clause cannot tag a term in another
+ */
+function tokenizeClauses(sentence: string): string[][] {
+  return sentence
+    .split(/[,;]|\bbut\b/i)
+    .map(tokenize)
+    .filter(tokens => tokens.length > 0);
+}
+
+/**
+ * Consecutive runs of `n` tokens
+ */
+export function ngrams(tokens: string[], n: number): string[][] {
+  const grams: string[][] = [];
+  for (let i = 0; i + n <= tokens.length; i++) {
+    grams.push(tokens.slice(i, i + n));
+  }
+  return grams;
+}
+
+/**
+ * Start positions of a phrase in a token list
+ */
+function findPhrase(tokens: string[], phrase: string[]): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, offset) => tokens[i + offset] === word)) positions.push(i);
+  }
+  return positions;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+interface CompiledIssue {
+  key: string;
+  terms: string[][];
+  complaints: string[][];
+}
+
+const COMPILED_LEXICON: CompiledIssue[] = ISSUE_LEXICON.map(issue => ({
+  key: issue.key,
+  terms: issue.terms.map(tokenize),
+  complaints: issue.complaints.map(tokenize),
+}));
+
+const COMPILED_CUES = COMPLAINT_CUES.map(tokenize);
+const CUE_WORDS = new Set(COMPILED_CUES.filter(cue => cue.length === 1).map(cue => cue[0]));
+
+interface CueMatch {
+  start: number;
+  end: number;
+  /** Negated cues ("no issues", "never a problem") read as praise */
+  negated: boolean;
+}
+
+function isNegated(tokens: string[], start: number): boolean {
+  return NEGATORS.has(tokens[start - 1]) || NEGATORS.has(tokens[start - 2]);
+}
+
+/**
+ * Complaint cues in a clause: lexicon cues, and negators followed within
+ * two words by a positive word ("didn't work", "wasn't very clean")
+ */
+function findCues(tokens: string[]): CueMatch[] {
+  const cues: CueMatch[] = COMPILED_CUES.flatMap(cue =>
+    findPhrase(tokens, cue).map(start => ({
+      start,
+      end: start + cue.length,
+      negated: isNegated(tokens, start),
+    }))
+  );
+
+  tokens.forEach((token, position) => {
+    if (!NEGATORS.has(token)) return;
+    const positive = [1, 2].find(offset => POSITIVE_WORDS.has(tokens[position + offset]));
+    if (positive) cues.push({ start: position, end: position + positive + 1, negated: false });
+  });
+
+  return cues;
+}
+
+/**
+ * Whether a complaint cue appears near tokens[start, end)
+ * A cue overlapping the term only counts when it negates the term itself
+ * ("not very clean", "not the cleanest").
+ */
+function hasCueNear(tokens: string[], cues: CueMatch[], start: number, end: number): boolean {
+  if (ABSENCE_WORDS.has(tokens[start - 1]) || ABSENCE_WORDS.has(tokens[start - 2])) return true;
+
+  return cues.some(cue => {
+    if (cue.negated) return false;
+    if (cue.start < end && cue.end > start) return cue.start < start && cue.end === end;
+    return cue.start >= start - CUE_WINDOW && cue.start < end + CUE_WINDOW;
+  });
+}
+
+/**
+ * Whether a complaint term is negated directly ("not noisy") or follows a
+ * negated cue ("no complaints about the noise")
+ */
+function isComplaintNegated(tokens: string[], cues: CueMatch[], start: number): boolean {
+  return isNegated(tokens, start) ||
+    cues.some(cue => cue.negated && cue.end <= start && start - cue.end < CUE_WINDOW);
+}
+
+function matchesIssue(tokens: string[], cues: CueMatch[], issue: CompiledIssue): boolean {
+  return issue.complaints.some(complaint =>
+    findPhrase(tokens, complaint).some(position => !isComplaintNegated(tokens, cues, position))
+  ) || issue.terms.some(term =>
+    findPhrase(tokens, term).some(position => hasCueNear(tokens, cues, position, position + term.length))
+  );
+}
+
+/**
+ * Whether a clause reads as a complaint about anything
+ */
+function isComplaint(tokens: string[]): boolean {
+  const cues = findCues(tokens);
+  return cues.some(cue => !cue.negated) ||
+    COMPILED_LEXICON.some(issue => issue.complaints.some(complaint =>
+      findPhrase(tokens, complaint).some(position => !isComplaintNegated(tokens, cues, position))
+    ));
+}
+
+/**
+ * Issues mentioned in a guest review, at most one match (the first sentence) per issue
+ */
+export function detectReviewIssues(review: NormalizedReview): ReviewIssueMatch[] {
+  if (review.type !== 'guest') return [];
+
+  const matches: ReviewIssueMatch[] = [];
+  const texts: [ReviewIssueMatch['source'], string | undefined][] = [
+    ['content', review.content],
+    ['privateNotes', review.privateNotes],
+  ];
+
+  texts.forEach(([source, text]) => {
+    splitSentences(text ?? '').forEach(sentence => {
+      const clauses = tokenizeClauses(sentence).map(tokens => ({ tokens, cues: findCues(tokens) }));
+      COMPILED_LEXICON.forEach(issue => {
+        if (matches.some(match => match.issue === issue.key)) return;
+        if (clauses.some(({ tokens, cues }) => matchesIssue(tokens, cues, issue))) {
+          matches.push({ issue: issue.key, excerpt: sentence, source });
+        }
+      });
+    });
+  });
+
+  return matches;
+}
+
+/**
+ * Keys of the issues mentioned in a review
+ */
+export function getReviewIssueKeys(review: NormalizedReview): string[] {
+  return detectReviewIssues(review).map(match => match.issue);
+}
+
+/**
+ * Two- and three-word phrases from a review's complaint clauses,
+ * without stop words or complaint cues
+ */
+export function extractComplaintPhrases(review: NormalizedReview): string[] {
+  if (review.type !== 'guest') return [];
+
+  const phrases = new Set<string>();
+  [review.content, review.privateNotes].forEach(text => {
+    splitSentences(text ?? '').flatMap(tokenizeClauses).forEach(tokens => {
+      if (!isComplaint(tokens)) return;
+
+      [2, 3].forEach(n => {
+        ngrams(tokens, n)
+          .filter(gram => gram.every(word =>
+            !STOP_WORDS.has(word) && !CUE_WORDS.has(word) && !NEGATORS.has(word) && !/^\d+$/.test(word)
+          ))
+          .forEach(gram => phrases.add(gram.join(' ')));
+      });
+    });
+  });
+
+  return Array.from(phrases);
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+// Example sentences kept per issue
+const MAX_EXAMPLES = 3;
+
+// Unlisted phrases must recur in this many reviews to be reported
+const MIN_PHRASE_REVIEWS = 2;
+const MAX_PHRASES = 10;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Whether a phrase contains a lexicon term or complaint, so it is already covered
+ */
+function isInLexicon(phrase: string): boolean {
+  const tokens = phrase.split(' ');
+  return COMPILED_LEXICON.some(issue =>
+    [...issue.terms, ...issue.complaints].some(term => findPhrase(tokens, term).length > 0)
+  );
+}
+
+/**
+ * How often each issue comes up in guest reviews, overall, per property and
+ * per period, plus recurring complaint phrases the lexicon does not cover
+ */
+export function buildIssueReport(reviews: NormalizedReview[], query: IssueQuery): IssueReport {
+  const { interval } = query;
+  const analysed = reviews
+    .filter(r => r.type === 'guest')
+    .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
+  const periods = getPeriods(analysed, interval);
+
+  const propertyTotals = new Map<string, { label: string; count: number }>();
+  const tagged = new Map<string, { reviews: NormalizedReview[]; examples: string[] }>();
+  const phraseCounts = new Map<string, number>();
+
+  analysed.forEach(review => {
+    const property = propertyTotals.get(review.propertyId) ??
+      { label: review.property.shortName, count: 0 };
+    property.count++;
+    propertyTotals.set(review.propertyId, property);
+
+    detectReviewIssues(review).forEach(match => {
+      const entry = tagged.get(match.issue) ?? { reviews: [], examples: [] };
+      entry.reviews.push(review);
+      if (entry.examples.length < MAX_EXAMPLES) entry.examples.push(match.excerpt);
+      tagged.set(match.issue, entry);
+    });
+
+    extractComplaintPhrases(review).forEach(phrase => {
+      phraseCounts.set(phrase, (phraseCounts.get(phrase) ?? 0) + 1);
+    });
+  });
+
+  const topIssues: IssueSummary[] = Array.from(tagged.entries()).map(([key, entry]) => {
+    const rated = entry.reviews.filter(r => r.overallRating > 0);
+
+    const byProperty = new Map<string, number>();
+    const byPeriod = new Map<string, number>();
+    entry.reviews.forEach(r => {
+      byProperty.set(r.propertyId, (byProperty.get(r.propertyId) ?? 0) + 1);
+      const period = getReviewPeriod(r, interval);
+      byPeriod.set(period, (byPeriod.get(period) ?? 0) + 1);
+    });
+
+    return {
+      key,
+      label: getIssueLabel(key),
+      reviewCount: entry.reviews.length,
+      share: round(entry.reviews.length / analysed.length, 3),
+      averageRating: rated.length > 0
+        ? round(rated.reduce((sum, r) => sum + r.overallRating, 0) / rated.length, 2)
+        : null,
+      byProperty: Array.from(byProperty.entries())
+        .map(([propertyId, count]) => {
+          const property = propertyTotals.get(propertyId)!;
+          return {
+            propertyId,
+            label: property.label,
+            reviewCount: count,
+            share: round(count / property.count, 3),
+          };
+        })
+        .sort((a, b) => b.reviewCount - a.reviewCount || a.label.localeCompare(b.label)),
+      buckets: periods.map(period => ({
+        period: period.start,
+        reviewCount: byPeriod.get(period.start) ?? 0,
+      })),
+      examples: entry.examples,
+    };
+  }).sort((a, b) => b.reviewCount - a.reviewCount || a.label.localeCompare(b.label));
+
+  const phrases: IssuePhrase[] = Array.from(phraseCounts.entries())
+    .filter(([phrase, count]) => count >= MIN_PHRASE_REVIEWS && !isInLexicon(phrase))
+    .map(([phrase, reviewCount]) => ({ phrase, reviewCount }))
+    .sort((a, b) => b.reviewCount - a.reviewCount || a.phrase.localeCompare(b.phrase))
+    .slice(0, MAX_PHRASES);
+
+  return {
+    interval,
+    periods,
+    analysedReviews: analysed.length,
+    topIssues,
+    phrases,
+  };
+}
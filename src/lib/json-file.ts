@@ -0,0 +1,35 @@
+/**
+ * JSON File Helpers
+ *
+ * Small utilities for the file-backed stores in `.data/`.
+ * Writes go to a temporary file first and are renamed into place,
+ * so a crash mid-write never leaves a truncated file behind.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Read and parse a JSON file, returning `fallback` if it does not exist
+ */
+export async function readJsonFile<T>(filePath: string, fallback: () => T): Promise<T> {
+  try {
+    const contents = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(contents) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Atomically write a value to a JSON file, creating parent directories
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { HostawayClient } from '@/lib/hostaway-client';
+import { mapHostawayListing, syncListings } from '@/lib/listing-sync';
+import { getPropertyCatalog, setPropertyCatalogStoreAdapter } from '@/lib/property-catalog';
+import type { HostawayListing, HostawayListingsResponse } from '@/types/property';
+import type { HostawayApiResponse } from '@/types/review';
+import { MemoryCatalogStore } from '@/test/stores';
+
+// Recorded Hostaway responses
+import recordedListings from '@/data/hostaway-listings.json';
+import mockReviews from '@/data/mock-reviews.json';
+
+const listings = (recordedListings as HostawayListingsResponse).result;
+const SYNCED_AT = '2024-12-01T09:00:00.000Z';
+
+describe('mapHostawayListing', () => {
+  it('maps a recorded listing into the property model', () => {
+    expect(mapHostawayListing(listings[0], 'UTC', SYNCED_AT)).toEqual({
+      id: '1001',
+      name: '2B Shoreditch Heights - Modern Loft',
+      shortName: '2B Shoreditch Heights',
+      location: 'Great Eastern Street',
+      city: 'London',
+      address: 'Great Eastern Street, London EC2A 3HU, United Kingdom',
+      description: listings[0].description,
+      amenities: [
+        'Internet', 'Wireless', 'Kitchen', 'Washer', 'Air conditioning',
+        'Dedicated workspace', 'Rooftop access', 'Elevator',
+      ],
+      images: ['/apartmentImages/Apartment1.jpg'],
+      capacity: { guests: 4, bedrooms: 2, bathrooms: 1 },
+      timezone: 'Europe/London',
+      syncedAt: SYNCED_AT,
+    });
+  });
+
+  it('fills in missing details', () => {
+    const listing = { id: 2001, name: ' Canal View - 2BR ' } as HostawayListing;
+
+    expect(mapHostawayListing(listing, 'Europe/Amsterdam', SYNCED_AT)).toEqual({
+      id: '2001',
+      name: 'Canal View - 2BR',
+      shortName: 'Canal View',
+      location: '',
+      city: '',
+      address: undefined,
+      description: '',
+      amenities: [],
+      images: [],
+      capacity: { guests: 0, bedrooms: 0, bathrooms: 0 },
+      timezone: 'Europe/Amsterdam',
+      syncedAt: SYNCED_AT,
+    });
+  });
+
+  it('orders photos, drops blank ones and de-duplicates amenities', () => {
+    const listing = {
+      ...listings[0],
+      listingAmenities: [
+        { amenityName: 'Kitchen' },
+        { amenityName: ' ' },
+        { amenityName: 'Kitchen' },
+        { amenityName: 'Washer' },
+      ],
+      listingImages: [
+        { url: '/b.jpg', sortOrder: 2 },
+        { url: '' },
+        { url: '/c.jpg' },
+        { url: '/a.jpg', sortOrder: 1 },
+      ],
+    } as HostawayListing;
+
+    const property = mapHostawayListing(listing, 'UTC', SYNCED_AT);
+
+    expect(property.amenities).toEqual(['Kitchen', 'Washer']);
+    expect(property.images).toEqual(['/a.jpg', '/b.jpg', '/c.jpg']);
+  });
+
+  it('falls back to the default timezone for unknown zones', () => {
+    const listing = { ...listings[0], timeZoneName: 'Mars/Olympus' };
+    expect(mapHostawayListing(listing, 'Europe/London', SYNCED_AT).timezone).toBe('Europe/London');
+  });
+
+  it('maps listings served page by page by a stand-in Hostaway API', async () => {
+    const client = new HostawayClient({
+      accountId: '61148',
+      apiKey: 'secret',
+      baseUrl: 'http://hostaway.test/v1',
+      pageSize: 3,
+      fetch: async input => {
+        const url = new URL(String(input));
+        if (url.pathname.endsWith('/accessTokens')) {
+          return Response.json({ access_token: 'token', expires_in: 3600 });
+        }
+        const offset = Number(url.searchParams.get('offset'));
+        return Response.json({
+          status: 'success',
+          result: listings.slice(offset, offset + 3),
+          count: listings.length,
+        });
+      },
+    });
+
+    const properties = (await client.fetchListings())
+      .map(listing => mapHostawayListing(listing, 'UTC', SYNCED_AT));
+
+    expect(properties.map(property => property.id)).toEqual(['1001', '1002', '1003', '1004']);
+  });
+});
+
+describe('syncListings', () => {
+  let store: MemoryCatalogStore;
+
+  beforeEach(() => {
+    store = new MemoryCatalogStore();
+    setPropertyCatalogStoreAdapter(store);
+  });
+
+  it('stores the recorded listings keyed by listing ID', async () => {
+    const record = await syncListings();
+
+    expect(record).toMatchObject({ received: 4, added: 4, updated: 0, removed: 0, rejected: [] });
+    expect(Object.keys(store.snapshot.listings)).toEqual(['1001', '1002', '1003', '1004']);
+    expect(store.snapshot.lastSuccessfulSync).toEqual(record);
+  });
+
+  it('keeps property IDs aligned with the listing IDs of reviews', async () => {
+    await syncListings();
+    const catalog = await getPropertyCatalog();
+
+    (mockReviews as HostawayApiResponse).result.forEach(review => {
+      expect(catalog.get(review.listingId)?.name).toBe(review.listingName);
+    });
+  });
+
+  it('only counts listings that changed', async () => {
+    await syncListings();
+    store.snapshot.listings['1002'].capacity.guests = 6;
+
+    const record = await syncListings();
+
+    expect(record).toMatchObject({ added: 0, updated: 1, removed: 0 });
+    expect(store.snapshot.listings['1002'].capacity.guests).toBe(2);
+  });
+
+  it('drops listings Hostaway no longer returns', async () => {
+    store.snapshot.listings['2001'] =
+      mapHostawayListing({ id: 2001, name: 'Canal View' } as HostawayListing, 'UTC', SYNCED_AT);
+
+    const record = await syncListings();
+
+    expect(record.removed).toBe(1);
+    expect(store.snapshot.listings['2001']).toBeUndefined();
+  });
+
+  it('shares one run between concurrent callers', async () => {
+    const [first, second] = await Promise.all([syncListings(), syncListings()]);
+    expect(second).toBe(first);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Listing Sync Job
+ *
+ * Pulls listings from Hostaway's `/listings` endpoint into the property
+ * catalog, mapping address, photos, amenities, room counts, guest capacity
+ * and timezone into our property model. Property IDs are the Hostaway
+ * listing IDs, so synced listings line up with the `propertyId` of their
+ * reviews.
+ *
+ * - live: Hostaway API
+ * - mock: recorded `/listings` response in `src/data/hostaway-listings.json`
+ * - file: not available (the reviews file holds no listings)
+ *
+ * Each successful sync replaces the synced listings. Listings Hostaway no
+ * longer returns are dropped, so their hand-kept catalog entry (if any) is
+ * used again. Listings that fail validation are skipped and reported in the
+ * sync record. Concurrent callers share a single in-flight sync.
+ */
+
+import { getConfig, type AppConfig } from '@/lib/config';
+import { isValidTimeZone } from '@/lib/dates';
+import { validateHostawayListing } from '@/lib/review-schema';
+import { getHostawayClient } from '@/lib/sources/hostaway-source';
+import {
+  readPropertyCatalogStore,
+  writePropertyCatalogStore,
+} from '@/lib/property-catalog';
+import type {
+  HostawayListing,
+  HostawayListingsResponse,
+  ListingSyncRecord,
+  Property,
+} from '@/types/property';
+
+// Recorded Hostaway listings response
+import recordedListings from '@/data/hostaway-listings.json';
+
+let inFlightSync: Promise<ListingSyncRecord> | null = null;
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Trimmed string, or undefined if blank or not a string
+ */
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Non-negative whole number, or 0 if missing or malformed
+ */
+function count(value: unknown): number {
+  return Number.isInteger(value) && (value as number) >= 0 ? value as number : 0;
+}
+
+/**
+ * Listing name without the marketing suffix (`2B Shoreditch Heights - Modern Loft`)
+ */
+function getShortName(name: string): string {
+  return name.split(/\s*[-–—]\s*/)[0].trim() || name;
+}
+
+/**
+ * Map a validated Hostaway listing into a catalog property
+ * Hostaway has no neighbourhood field, so `location` falls back to the
+ * street or city; hand-kept catalog entries override it.
+ */
+export function mapHostawayListing(
+  listing: HostawayListing,
+  defaultTimeZone: string,
+  syncedAt: string
+): Property {
+  const city = text(listing.city) ?? '';
+  const timeZone = text(listing.timeZoneName);
+
+  const amenities = (listing.listingAmenities ?? [])
+    .map(amenity => text(amenity?.amenityName))
+    .filter((name): name is string => name !== undefined);
+
+  const images = (listing.listingImages ?? [])
+    .filter(image => text(image?.url))
+    .sort((a, b) => (a.sortOrder ?? Infinity) - (b.sortOrder ?? Infinity))
+    .map(image => image.url.trim());
+
+  return {
+    id: String(listing.id),
+    name: listing.name.trim(),
+    shortName: text(listing.externalListingName) ?? getShortName(listing.name.trim()),
+    location: text(listing.street) ?? city,
+    city,
+    address: text(listing.publicAddress) ?? text(listing.address),
+    description: text(listing.description) ?? '',
+    amenities: Array.from(new Set(amenities)),
+    images,
+    capacity: {
+      guests: count(listing.personCapacity),
+      bedrooms: count(listing.bedroomsNumber),
+      bathrooms: count(listing.bathroomsNumber),
+    },
+    timezone: timeZone && isValidTimeZone(timeZone) ? timeZone : defaultTimeZone,
+    syncedAt,
+  };
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Whether listings can be synced with this configuration
+ */
+export function isListingSyncEnabled(config: AppConfig): boolean {
+  return config.dataSource !== 'file';
+}
+
+/**
+ * Fetch raw listings from the configured data source
+ */
+async function fetchListings(config: AppConfig): Promise<unknown[]> {
+  if (config.dataSource === 'live') {
+    return getHostawayClient(config).fetchListings();
+  }
+
+  const response = recordedListings as HostawayListingsResponse;
+  if (response.status !== 'success' || !Array.isArray(response.result)) {
+    throw new Error(response.message || 'Recorded listings did not contain a successful response');
+  }
+  return response.result;
+}
+
+async function runSync(): Promise<ListingSyncRecord> {
+  const config = getConfig();
+  const snapshot = await readPropertyCatalogStore();
+  const startedAt = new Date().toISOString();
+
+  const record: ListingSyncRecord = {
+    startedAt,
+    finishedAt: startedAt,
+    received: 0,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    rejected: [],
+  };
+
+  try {
+    const rawListings = await fetchListings(config);
+    const listings: Record<string, Property> = {};
+    record.received = rawListings.length;
+
+    rawListings.forEach(raw => {
+      const issues = validateHostawayListing(raw);
+      if (issues.length > 0) {
+        const id = (raw as { id?: unknown } | null)?.id;
+        record.rejected.push({ listingId: Number.isInteger(id) ? id as number : null, issues });
+        return;
+      }
+
+      const property = mapHostawayListing(
+        raw as HostawayListing,
+        config.hostawayTimeZone,
+        startedAt
+      );
+      const existing = snapshot.listings[property.id];
+      listings[property.id] = property;
+
+      if (!existing) {
+        record.added++;
+      } else if (JSON.stringify({ ...existing, syncedAt: startedAt }) !== JSON.stringify(property)) {
+        record.updated++;
+      }
+    });
+
+    record.removed = Object.keys(snapshot.listings).filter(id => !listings[id]).length;
+    record.finishedAt = new Date().toISOString();
+
+    snapshot.listings = listings;
+    snapshot.lastSync = record;
+    snapshot.lastSuccessfulSync = record;
+    await writePropertyCatalogStore(snapshot);
+    return record;
+
+  } catch (error) {
+    // Keep the previously synced listings; only record the failure
+    record.finishedAt = new Date().toISOString();
+    record.error = error instanceof Error ? error.message : String(error);
+    snapshot.lastSync = record;
+    await writePropertyCatalogStore(snapshot).catch(writeError => {
+      console.error('Error recording failed listing sync:', writeError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sync listings from Hostaway into the property catalog
+ * Throws if the listings could not be read; the failure is also recorded in
+ * the catalog store's `lastSync`.
+ */
+export function syncListings(): Promise<ListingSyncRecord> {
+  if (!inFlightSync) {
+    inFlightSync = runSync().finally(() => {
+      inFlightSync = null;
+    });
+  }
+  return inFlightSync;
+}
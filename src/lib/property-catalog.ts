@@ -0,0 +1,206 @@
+/**
+ * Property Catalog
+ *
+ * Our listings with everything guests see about them: name, location,
+ * description, amenities, images, capacity and timezone. The public
+ * property pages render from the catalog, and review normalization uses it
+ * to attach property details and read upstream timestamps in the listing's
+ * timezone, so adding a listing is data rather than a code change.
+ *
+ * The catalog combines two layers:
+ * - Hand-kept entries in `src/data/properties.json`
+ * - Listings synced from Hostaway (`src/lib/listing-sync.ts`), persisted
+ *   in the catalog store
+ * Synced details win; the hand-kept short name, neighbourhood and Google
+ * place link are kept because Hostaway has no equivalent.
+ *
+ * Property IDs are Hostaway listing IDs, the same as review `propertyId`s.
+ * Like the review store, storage sits behind an adapter.
+ */
+
+import { getConfig } from '@/lib/config';
+import { readJsonFile, writeJsonFile } from '@/lib/json-file';
+import type { ListingSyncRecord, Property } from '@/types/property';
+
+// Hand-kept catalog entries
+import catalogData from '@/data/properties.json';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Increment whenever the stored listing shape changes
+ */
+export const PROPERTY_CATALOG_VERSION = 1;
+
+/**
+ * Persisted state of the synced listings
+ */
+export interface PropertyCatalogSnapshot {
+  version: number;
+  /** Properties mapped from Hostaway listings, keyed by listing ID */
+  listings: Record<string, Property>;
+  lastSync: ListingSyncRecord | null;
+  lastSuccessfulSync: ListingSyncRecord | null;
+}
+
+/**
+ * Storage backend for synced listings
+ */
+export interface PropertyCatalogStoreAdapter {
+  read(): Promise<PropertyCatalogSnapshot>;
+  write(snapshot: PropertyCatalogSnapshot): Promise<void>;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+function createEmptySnapshot(): PropertyCatalogSnapshot {
+  return {
+    version: PROPERTY_CATALOG_VERSION,
+    listings: {},
+    lastSync: null,
+    lastSuccessfulSync: null,
+  };
+}
+
+/**
+ * Stores synced listings in a JSON file on disk
+ */
+export class JsonFilePropertyCatalogStoreAdapter implements PropertyCatalogStoreAdapter {
+  constructor(private readonly filePath: string) {}
+
+  async read(): Promise<PropertyCatalogSnapshot> {
+    return readJsonFile(this.filePath, createEmptySnapshot);
+  }
+
+  async write(snapshot: PropertyCatalogSnapshot): Promise<void> {
+    await writeJsonFile(this.filePath, snapshot);
+  }
+}
+
+let adapter: PropertyCatalogStoreAdapter | null = null;
+
+/**
+ * Get the active adapter, defaulting to the configured catalog file
+ */
+function getAdapter(): PropertyCatalogStoreAdapter {
+  if (!adapter) {
+    adapter = new JsonFilePropertyCatalogStoreAdapter(getConfig().propertyCatalogFile);
+  }
+  return adapter;
+}
+
+/**
+ * Replace the storage backend (e.g. with a database adapter)
+ */
+export function setPropertyCatalogStoreAdapter(next: PropertyCatalogStoreAdapter): void {
+  adapter = next;
+}
+
+/**
+ * Read the synced listings
+ * Snapshots from an older version are discarded; the next listing sync
+ * fills them again.
+ */
+export async function readPropertyCatalogStore(): Promise<PropertyCatalogSnapshot> {
+  const snapshot = await getAdapter().read();
+  return snapshot.version === PROPERTY_CATALOG_VERSION ? snapshot : createEmptySnapshot();
+}
+
+/**
+ * Persist the synced listings
+ */
+export async function writePropertyCatalogStore(snapshot: PropertyCatalogSnapshot): Promise<void> {
+  await getAdapter().write(snapshot);
+}
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+export class PropertyCatalog {
+  private readonly properties: Property[];
+  private readonly byId: Map<string, Property>;
+
+  constructor(properties: Property[]) {
+    this.properties = properties;
+    this.byId = new Map(properties.map(property => [property.id, property]));
+  }
+
+  /**
+   * Every property, in catalog order
+   */
+  list(): Property[] {
+    return this.properties;
+  }
+
+  /**
+   * Look up a property by ID (accepts numeric Hostaway listing IDs)
+   */
+  get(id: string | number | null | undefined): Property | undefined {
+    if (id === null || id === undefined) return undefined;
+    return this.byId.get(String(id));
+  }
+}
+
+/**
+ * Hand-kept catalog entries
+ */
+function getCuratedProperties(): Property[] {
+  return catalogData as Property[];
+}
+
+/**
+ * Combine a hand-kept entry with its synced listing
+ * Empty synced lists fall back to the hand-kept ones.
+ */
+function mergeProperty(curated: Property, synced: Property): Property {
+  return {
+    ...synced,
+    shortName: curated.shortName,
+    location: curated.location,
+    googlePlaceId: curated.googlePlaceId,
+    description: synced.description || curated.description,
+    amenities: synced.amenities.length > 0 ? synced.amenities : curated.amenities,
+    images: synced.images.length > 0 ? synced.images : curated.images,
+  };
+}
+
+/**
+ * Get the property catalog
+ * Hand-kept entries come first in file order, followed by listings that
+ * only exist in Hostaway.
+ */
+export async function getPropertyCatalog(): Promise<PropertyCatalog> {
+  const { listings } = await readPropertyCatalogStore();
+  const curated = getCuratedProperties();
+  const curatedIds = new Set(curated.map(property => property.id));
+
+  const syncedOnly = Object.values(listings)
+    .filter(property => !curatedIds.has(property.id))
+    .sort((a, b) => Number(a.id) - Number(b.id));
+
+  return new PropertyCatalog([
+    ...curated.map(property =>
+      listings[property.id] ? mergeProperty(property, listings[property.id]) : property
+    ),
+    ...syncedOnly,
+  ]);
+}
+
+/**
+ * Every property in the catalog
+ */
+export async function getProperties(): Promise<Property[]> {
+  return (await getPropertyCatalog()).list();
+}
+
+/**
+ * A single property, or null if it is not in the catalog
+ */
+export async function getProperty(id: string): Promise<Property | null> {
+  return (await getPropertyCatalog()).get(id) ?? null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Public Reviews
+ *
+ * Approved guest reviews as guests see them on the public property pages,
+ * which are rendered on the server and cached, and through the public
+ * reviews endpoint. Guests can sort, filter by stars or stay length and
+ * search; private notes and stay details (dates, price) are stripped after
+ * filtering, so they never reach the page.
+ *
+ * A property's displayed rating is calculated from its reviews with the
+ * configured rating method (see `src/lib/rating.ts`), which may also score
+ * reviews that are not shown.
+ *
+ * Approval changes revalidate the affected property page right away;
+ * otherwise pages are re-rendered on the page's `revalidate` interval,
+ * which picks up newly synced reviews.
+ */
+
+import { revalidatePath } from 'next/cache';
+import { getApprovedIdsSet } from '@/lib/approval-store';
+import { getConfig } from '@/lib/config';
+import { calculateRating } from '@/lib/rating';
+import { getReviews } from '@/lib/review-service';
+import { readReviewStore } from '@/lib/review-store';
+import { filterReviews, sortReviews } from '@/lib/review-utils';
+import { STAY_LENGTH_BUCKETS } from '@/lib/stays';
+import type {
+  NormalizedReview,
+  PublicReviewQuery,
+  PublicReviewSort,
+  ReviewSort,
+} from '@/types/review';
+import type { RatingResult } from '@/types/rating';
+
+// ============================================================================
+// Reviews
+// ============================================================================
+
+/**
+ * A review without the fields that are only meant for managers
+ */
+export function toPublicReview(review: NormalizedReview): NormalizedReview {
+  const publicReview = { ...review };
+  delete publicReview.privateNotes;
+  delete publicReview.reservationId;
+  delete publicReview.reservation;
+  return publicReview;
+}
+
+const PUBLIC_SORTS: Record<PublicReviewSort, ReviewSort> = {
+  newest: { field: 'date', order: 'desc' },
+  highest: { field: 'rating', order: 'desc' },
+  lowest: { field: 'rating', order: 'asc' },
+};
+
+/**
+ * Whether a review's text or reviewer name contains the search text
+ */
+function matchesSearch(review: NormalizedReview, search: string): boolean {
+  const needle = search.toLocaleLowerCase();
+  return review.content.toLocaleLowerCase().includes(needle) ||
+    review.reviewer.toLocaleLowerCase().includes(needle);
+}
+
+/**
+ * Approved guest reviews of a property, newest first unless sorted otherwise
+ * Reviews with the same rating stay newest first.
+ */
+export async function getApprovedPropertyReviews(
+  propertyId: string,
+  query: PublicReviewQuery = { sort: 'newest' }
+): Promise<NormalizedReview[]> {
+  const [{ reviews }, approvedIds] = await Promise.all([getReviews(), getApprovedIdsSet()]);
+  const stay = STAY_LENGTH_BUCKETS.find(bucket => bucket.key === query.stay);
+
+  const approved = filterReviews(
+    reviews.map(review => ({ ...review, isApprovedForDisplay: approvedIds.has(review.id) })),
+    {
+      propertyId,
+      type: 'guest',
+      approvedOnly: true,
+      ...(stay && { minNights: stay.minNights, maxNights: stay.maxNights }),
+    }
+  ).filter(review =>
+    (query.stars === undefined || Math.round(review.overallRating) === query.stars) &&
+    (!query.search || matchesSearch(review, query.search))
+  );
+
+  return sortReviews(approved, PUBLIC_SORTS[query.sort]).map(toPublicReview);
+}
+
+/**
+ * Displayed rating of a property, weighted toward the portfolio
+ */
+export async function getPropertyRating(propertyId: string): Promise<RatingResult> {
+  const [{ reviews }, approvedIds] = await Promise.all([getReviews(), getApprovedIdsSet()]);
+  const portfolio = reviews.map(review => ({
+    ...review,
+    isApprovedForDisplay: approvedIds.has(review.id),
+  }));
+
+  return calculateRating(
+    portfolio.filter(review => review.propertyId === propertyId),
+    portfolio,
+    getConfig().rating
+  );
+}
+
+// ============================================================================
+// Revalidation
+// ============================================================================
+
+/**
+ * Path of a property's public page
+ */
+export function getPropertyPagePath(propertyId: string): string {
+  return `/property/${propertyId}`;
+}
+
+/**
+ * Revalidate the public page showing a review after its approval changed
+ * If the review is not in the store, every property page is revalidated.
+ */
+export async function revalidateReviewPages(reviewId: string): Promise<void> {
+  const snapshot = await readReviewStore();
+  const propertyId = snapshot.reviews[reviewId]?.review.propertyId;
+
+  if (propertyId) {
+    revalidatePath(getPropertyPagePath(propertyId));
+  } else {
+    revalidatePath('/property/[id]', 'page');
+  }
+}
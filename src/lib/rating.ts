@@ -0,0 +1,116 @@
+/**
+ * Rating Calculator
+ *
+ * Calculates the rating shown for a property. A plain mean lets a listing
+ * with one 5-star review outrank one with forty 4.8s, so by default the
+ * rating is a Bayesian average: the property's reviews plus `priorWeight`
+ * virtual reviews at the portfolio mean,
+ *
+ *   rating = (priorWeight × priorMean + sum of ratings) / (priorWeight + review count)
+ *
+ * which pulls ratings from few reviews toward the portfolio and lets them
+ * move away as reviews accumulate. Properties with fewer than `minReviews`
+ * reviews are not rated. By default only reviews approved for display are
+ * scored; with `includeUnapproved`, hidden published reviews count too, so
+ * approving only good reviews cannot inflate the rating.
+ *
+ * Safe to import from client components. Settings come from the server
+ * configuration (see `src/lib/config.ts`).
+ */
+
+import type { NormalizedReview } from '@/types/review';
+import type { RatingResult, RatingSettings } from '@/types/rating';
+
+export const DEFAULT_RATING_SETTINGS: RatingSettings = {
+  method: 'bayesian',
+  priorWeight: 5,
+  priorMean: null,
+  minReviews: 3,
+  includeUnapproved: false,
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function mean(reviews: NormalizedReview[]): number | null {
+  if (reviews.length === 0) return null;
+  return reviews.reduce((sum, review) => sum + review.overallRating, 0) / reviews.length;
+}
+
+/**
+ * Reviews that count toward ratings: rated guest reviews that are approved
+ * for display, or published if unapproved reviews are included
+ */
+export function selectScoredReviews(
+  reviews: NormalizedReview[],
+  settings: RatingSettings = DEFAULT_RATING_SETTINGS
+): NormalizedReview[] {
+  return reviews.filter(review =>
+    review.type === 'guest' &&
+    review.overallRating > 0 &&
+    (review.isApprovedForDisplay || (settings.includeUnapproved && review.status === 'published'))
+  );
+}
+
+/**
+ * Rating of one property
+ * `reviews` are the property's reviews; `portfolio` is every property's
+ * reviews, used for the prior unless the settings fix it.
+ */
+export function calculateRating(
+  reviews: NormalizedReview[],
+  portfolio: NormalizedReview[],
+  settings: RatingSettings = DEFAULT_RATING_SETTINGS
+): RatingResult {
+  const scored = selectScoredReviews(reviews, settings);
+  const scoredMean = mean(scored);
+  const priorMean = settings.priorMean ?? mean(selectScoredReviews(portfolio, settings)) ?? scoredMean;
+
+  let value: number | null = null;
+  if (scoredMean !== null && scored.length >= settings.minReviews) {
+    value = settings.method === 'bayesian' && priorMean !== null
+      ? (settings.priorWeight * priorMean + scoredMean * scored.length) /
+        (settings.priorWeight + scored.length)
+      : scoredMean;
+  }
+
+  return {
+    value: value !== null ? round(value) : null,
+    mean: scoredMean !== null ? round(scoredMean) : null,
+    reviewCount: scored.length,
+    priorMean: priorMean !== null ? round(priorMean) : null,
+    settings,
+  };
+}
+
+/**
+ * Plain-language description of how a rating was calculated, for display
+ */
+export function describeRatingMethod(result: RatingResult): string {
+  const { settings, priorMean } = result;
+  const sentences: string[] = [];
+
+  if (settings.method === 'bayesian' && priorMean !== null) {
+    const prior = settings.priorMean === null
+      ? `the average across all our properties (${priorMean.toFixed(1)})`
+      : `a baseline of ${priorMean.toFixed(1)}`;
+    sentences.push(
+      `Ratings are a weighted average: each property's reviews are combined with ` +
+      `${settings.priorWeight} reviews' worth of ${prior}, so a rating based on a handful ` +
+      `of reviews is not overstated.`
+    );
+  } else {
+    sentences.push('Ratings are the average of guest review scores.');
+  }
+
+  if (settings.minReviews > 1) {
+    sentences.push(`Properties are rated once they have ${settings.minReviews} reviews.`);
+  }
+
+  sentences.push(settings.includeUnapproved
+    ? 'Every published guest review counts, including ones not shown here.'
+    : 'Only the guest reviews shown on our site count.');
+
+  return sentences.join(' ');
+}
@@ -0,0 +1,83 @@
+/**
+ * Reservations
+ *
+ * Reads Hostaway reservations so reviews can be linked to the stay they
+ * describe through `reservationId`:
+ * - live: Hostaway API (`/reservations`)
+ * - mock: bundled sample reservations for the mock reviews
+ * - file: not available (the reviews file holds no reservations)
+ *
+ * The sync job stores the reservations that reviews refer to in the review
+ * store; they are attached to reviews when reviews are read.
+ */
+
+import type { AppConfig } from '@/lib/config';
+import { getChannel } from '@/lib/channels';
+import { getHostawayClient } from '@/lib/sources/hostaway-source';
+import type {
+  HostawayReservation,
+  HostawayReservationsResponse,
+  ReservationInfo,
+} from '@/types/reservation';
+
+// Import mock data
+import mockReservations from '@/data/mock-reservations.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether reservations can be read with this configuration
+ * Reservations come from Hostaway, so the Hostaway review source must be
+ * one of the synced sources.
+ */
+export function isReservationSyncEnabled(config: AppConfig, sourceIds: string[]): boolean {
+  return config.dataSource !== 'file' && sourceIds.includes('hostaway');
+}
+
+/**
+ * Fetch raw reservations from the configured data source
+ */
+export async function fetchReservations(config: AppConfig): Promise<unknown[]> {
+  if (config.dataSource === 'live') {
+    return getHostawayClient(config).fetchReservations();
+  }
+
+  const response = mockReservations as HostawayReservationsResponse;
+  if (response.status !== 'success' || !Array.isArray(response.result)) {
+    throw new Error(response.message || 'Mock reservations did not contain a successful response');
+  }
+  return response.result;
+}
+
+/**
+ * ISO 4217 currency code, or null if missing or malformed
+ */
+function getCurrency(value: string | null | undefined): string | null {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/**
+ * Map a validated Hostaway reservation into the stay details shown with reviews
+ * Nights are derived from the dates when Hostaway does not report them.
+ */
+export function mapHostawayReservation(reservation: HostawayReservation): ReservationInfo {
+  const channel = getChannel(reservation.channelName);
+  const nights = Number.isInteger(reservation.nights) && reservation.nights! > 0
+    ? reservation.nights!
+    : Math.round(
+      (Date.parse(reservation.departureDate) - Date.parse(reservation.arrivalDate)) / DAY_MS
+    );
+
+  return {
+    id: reservation.id.toString(),
+    checkIn: reservation.arrivalDate,
+    checkOut: reservation.departureDate,
+    nights,
+    guests: Number.isInteger(reservation.numberOfGuests) ? reservation.numberOfGuests! : null,
+    channel: channel.key,
+    channelDisplayName: channel.displayName,
+    totalPrice: typeof reservation.totalPrice === 'number' ? reservation.totalPrice : null,
+    currency: getCurrency(reservation.currency),
+  };
+}
@@ -0,0 +1,558 @@
+/**
+ * Review Query Parameters
+ *
+ * Parses and validates the filter and sort query string accepted by
+ * `/api/reviews/hostaway`, so bad input gets a clear 400 instead of being
+ * silently ignored. The public reviews endpoint
+ * (`/api/properties/[id]/reviews`) has its own, smaller set of options,
+ * and the analytics and issues endpoints (`/api/reviews/analytics`,
+ * `/api/reviews/issues`) take the review filters plus their bucketing.
+ *
+ * Category thresholds use `category=<name>:<min>:<max>` (either bound may be
+ * empty, the parameter may repeat), e.g. `category=cleanliness::6`.
+ * Stay filters (`minNights`, `maxNights`, `season`) match the reservation
+ * linked to each review; `issue` matches reviews whose text mentions an issue
+ * from the lexicon in `src/lib/issues.ts`.
+ * Sorting uses `sort=<field>` or `sort=category:<name>` plus `order=asc|desc`.
+ * Paging uses `page` + `pageSize`, or an opaque `cursor` from a previous
+ * response's `meta.pagination.nextCursor`.
+ */
+
+import type { AnalyticsQuery } from '@/types/analytics';
+import type { IssueQuery } from '@/types/issues';
+import type { StaySeason } from '@/types/reservation';
+import type {
+  CategoryFilter,
+  PublicReviewQuery,
+  PublicReviewSort,
+  ReviewFilters,
+  ReviewPagination,
+  ReviewSort,
+  ReviewSortField,
+  ReviewSortOrder,
+} from '@/types/review';
+import { ANALYTICS_GROUPINGS, ANALYTICS_INTERVALS } from '@/lib/analytics';
+import { resolveChannelKey } from '@/lib/channels';
+import { ISSUE_KEYS } from '@/lib/issues';
+import { STAY_LENGTH_BUCKETS, STAY_SEASONS } from '@/lib/stays';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raised when query parameters are present but invalid
+ */
+export class QueryValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid query parameters: ${issues.join('; ')}`);
+    this.name = 'QueryValidationError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// Allowed Values
+// ============================================================================
+
+const REVIEW_TYPES: NonNullable<ReviewFilters['type']>[] = ['guest', 'host', 'all'];
+const REVIEW_STATUSES: NonNullable<ReviewFilters['status']>[] = [
+  'published',
+  'pending',
+  'rejected',
+  'all',
+];
+
+const SORT_FIELDS: ReviewSortField[] = ['date', 'rating', 'property', 'channel', 'category'];
+const SORT_ORDERS: ReviewSortOrder[] = ['asc', 'desc'];
+
+const MIN_RATING = 0;
+const MAX_RATING = 5;
+
+// Category ratings are out of 10
+const MIN_CATEGORY_RATING = 0;
+const MAX_CATEGORY_RATING = 10;
+
+// Longest stay accepted in night filters
+const MAX_NIGHTS = 365;
+
+const DEFAULT_SORT: ReviewSort = { field: 'date', order: 'desc' };
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export const PUBLIC_REVIEW_SORTS: PublicReviewSort[] = ['newest', 'highest', 'lowest'];
+const MAX_SEARCH_LENGTH = 100;
+
+// Accepts "2024-11-15" or a full ISO timestamp
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseRating(
+  value: string | null,
+  name: string,
+  issues: string[]
+): number | undefined {
+  if (value === null || value === '') return undefined;
+  const rating = Number(value);
+  if (Number.isNaN(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+    issues.push(`${name} must be a number between ${MIN_RATING} and ${MAX_RATING}`);
+    return undefined;
+  }
+  return rating;
+}
+
+function parseDate(
+  value: string | null,
+  name: string,
+  issues: string[]
+): string | undefined {
+  if (value === null || value === '') return undefined;
+  if (!DATE_PATTERN.test(value) || Number.isNaN(new Date(value).getTime())) {
+    issues.push(`${name} must be a date in YYYY-MM-DD or ISO 8601 format`);
+    return undefined;
+  }
+  return value;
+}
+
+function parseEnum<T extends string>(
+  value: string | null,
+  name: string,
+  allowed: T[],
+  issues: string[]
+): T | undefined {
+  if (value === null || value === '') return undefined;
+  if (!allowed.includes(value as T)) {
+    issues.push(`${name} must be one of ${allowed.join(', ')}`);
+    return undefined;
+  }
+  return value as T;
+}
+
+function parseNights(
+  value: string | null,
+  name: string,
+  issues: string[]
+): number | undefined {
+  if (value === null || value === '') return undefined;
+  const nights = Number(value);
+  if (!Number.isInteger(nights) || nights < 1 || nights > MAX_NIGHTS) {
+    issues.push(`${name} must be a whole number of nights between 1 and ${MAX_NIGHTS}`);
+    return undefined;
+  }
+  return nights;
+}
+
+function parseBoolean(
+  value: string | null,
+  name: string,
+  issues: string[]
+): boolean | undefined {
+  if (value === null || value === '') return undefined;
+  if (value !== 'true' && value !== 'false') {
+    issues.push(`${name} must be true or false`);
+    return undefined;
+  }
+  return value === 'true';
+}
+
+function parseCategoryBound(value: string, param: string, issues: string[]): number | undefined {
+  if (value === '') return undefined;
+  const rating = Number(value);
+  if (Number.isNaN(rating) || rating < MIN_CATEGORY_RATING || rating > MAX_CATEGORY_RATING) {
+    issues.push(
+      `category "${param}" bounds must be numbers between ${MIN_CATEGORY_RATING} and ${MAX_CATEGORY_RATING}`
+    );
+    return undefined;
+  }
+  return rating;
+}
+
+function parseCategoryFilters(values: string[], issues: string[]): CategoryFilter[] | undefined {
+  if (values.length === 0) return undefined;
+
+  const filters: CategoryFilter[] = [];
+  for (const value of values) {
+    const [category, min = '', max = '', ...rest] = value.split(':');
+    if (!category || rest.length > 0 || (min === '' && max === '')) {
+      issues.push(`category must look like <name>:<min>:<max> with at least one bound (got "${value}")`);
+      continue;
+    }
+
+    const filter: CategoryFilter = {
+      category,
+      min: parseCategoryBound(min, value, issues),
+      max: parseCategoryBound(max, value, issues),
+    };
+    if (filter.min !== undefined && filter.max !== undefined && filter.min > filter.max) {
+      issues.push(`category "${value}" min cannot be greater than max`);
+    }
+    filters.push(filter);
+  }
+  return filters;
+}
+
+/**
+ * Parse review filters from URL search params
+ * Throws QueryValidationError listing every invalid parameter
+ */
+export function parseReviewFilters(searchParams: URLSearchParams): ReviewFilters {
+  const issues: string[] = [];
+
+  const filters: ReviewFilters = {
+    propertyId: searchParams.get('propertyId') || undefined,
+    // Channel aliases (e.g. `bookingcom`) resolve to the canonical key
+    channel: searchParams.get('channel') ? resolveChannelKey(searchParams.get('channel')) : undefined,
+    type: parseEnum(searchParams.get('type'), 'type', REVIEW_TYPES, issues),
+    status: parseEnum(searchParams.get('status'), 'status', REVIEW_STATUSES, issues),
+    minRating: parseRating(searchParams.get('minRating'), 'minRating', issues),
+    maxRating: parseRating(searchParams.get('maxRating'), 'maxRating', issues),
+    dateFrom: parseDate(searchParams.get('dateFrom'), 'dateFrom', issues),
+    dateTo: parseDate(searchParams.get('dateTo'), 'dateTo', issues),
+    approvedOnly: parseBoolean(searchParams.get('approvedOnly'), 'approvedOnly', issues),
+    categories: parseCategoryFilters(searchParams.getAll('category'), issues),
+    minNights: parseNights(searchParams.get('minNights'), 'minNights', issues),
+    maxNights: parseNights(searchParams.get('maxNights'), 'maxNights', issues),
+    season: parseEnum<StaySeason>(searchParams.get('season'), 'season', STAY_SEASONS, issues),
+    issue: parseEnum(searchParams.get('issue'), 'issue', ISSUE_KEYS, issues),
+  };
+
+  if (
+    filters.minRating !== undefined &&
+    filters.maxRating !== undefined &&
+    filters.minRating > filters.maxRating
+  ) {
+    issues.push('minRating cannot be greater than maxRating');
+  }
+
+  if (
+    filters.minNights !== undefined &&
+    filters.maxNights !== undefined &&
+    filters.minNights > filters.maxNights
+  ) {
+    issues.push('minNights cannot be greater than maxNights');
+  }
+
+  if (
+    filters.dateFrom &&
+    filters.dateTo &&
+    new Date(filters.dateFrom).getTime() > new Date(filters.dateTo).getTime()
+  ) {
+    issues.push('dateFrom cannot be after dateTo');
+  }
+
+  if (issues.length > 0) {
+    throw new QueryValidationError(issues);
+  }
+
+  return filters;
+}
+
+/**
+ * Parse sort options from URL search params (defaults to newest first)
+ * Throws QueryValidationError on unknown fields or orders
+ */
+export function parseReviewSort(searchParams: URLSearchParams): ReviewSort {
+  const issues: string[] = [];
+
+  const [rawField, category] = (searchParams.get('sort') || DEFAULT_SORT.field).split(':');
+  const field = parseEnum(rawField, 'sort', SORT_FIELDS, issues);
+  const order = parseEnum(searchParams.get('order'), 'order', SORT_ORDERS, issues);
+
+  if (field === 'category' && !category) {
+    issues.push('sort=category requires a category name, e.g. sort=category:cleanliness');
+  }
+
+  if (issues.length > 0) {
+    throw new QueryValidationError(issues);
+  }
+
+  return {
+    field: field ?? DEFAULT_SORT.field,
+    order: order ?? DEFAULT_SORT.order,
+    ...(field === 'category' && { category }),
+  };
+}
+
+/**
+ * Parse public review options from URL search params (defaults to newest first)
+ * Throws QueryValidationError listing every invalid parameter
+ */
+export function parsePublicReviewQuery(searchParams: URLSearchParams): PublicReviewQuery {
+  const issues: string[] = [];
+
+  const sort = parseEnum(searchParams.get('sort'), 'sort', PUBLIC_REVIEW_SORTS, issues);
+  const stay = parseEnum(
+    searchParams.get('stay'),
+    'stay',
+    STAY_LENGTH_BUCKETS.map(bucket => bucket.key),
+    issues
+  );
+
+  let stars: number | undefined;
+  const rawStars = searchParams.get('stars');
+  if (rawStars) {
+    stars = Number(rawStars);
+    if (!Number.isInteger(stars) || stars < 1 || stars > MAX_RATING) {
+      issues.push(`stars must be a whole number between 1 and ${MAX_RATING}`);
+    }
+  }
+
+  const search = searchParams.get('q')?.trim() || undefined;
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    issues.push(`q must be at most ${MAX_SEARCH_LENGTH} characters`);
+  }
+
+  if (issues.length > 0) {
+    throw new QueryValidationError(issues);
+  }
+
+  return {
+    sort: sort ?? 'newest',
+    ...(stars !== undefined && { stars }),
+    ...(stay && { stay }),
+    ...(search && { search }),
+  };
+}
+
+/**
+ * Parse analytics bucketing from URL search params (defaults to monthly by property)
+ * Throws QueryValidationError listing every invalid parameter
+ */
+export function parseAnalyticsQuery(searchParams: URLSearchParams): AnalyticsQuery {
+  const issues: string[] = [];
+
+  const interval = parseEnum(searchParams.get('interval'), 'interval', ANALYTICS_INTERVALS, issues);
+  const groupBy = parseEnum(searchParams.get('groupBy'), 'groupBy', ANALYTICS_GROUPINGS, issues);
+
+  if (issues.length > 0) {
+    throw new QueryValidationError(issues);
+  }
+
+  return {
+    interval: interval ?? 'month',
+    groupBy: groupBy ?? 'property',
+  };
+}
+
+/**
+ * Parse issue report bucketing from URL search params (defaults to monthly)
+ * Throws QueryValidationError on an unknown interval
+ */
+export function parseIssueQuery(searchParams: URLSearchParams): IssueQuery {
+  const issues: string[] = [];
+
+  const interval = parseEnum(searchParams.get('interval'), 'interval', ANALYTICS_INTERVALS, issues);
+
+  if (issues.length > 0) {
+    throw new QueryValidationError(issues);
+  }
+
+  return { interval: interval ?? 'month' };
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Requested slice of the sorted, filtered reviews
+ * `afterId` comes from a cursor and takes precedence over `offset`
+ */
+export interface PageRequest {
+  offset: number;
+  pageSize: number;
+  afterId?: string;
+}
+
+interface CursorPayload {
+  id: string;
+  offset: number;
+}
+
+/**
+ * Encode a cursor pointing just after the given review
+ */
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof payload.id === 'string' && Number.isInteger(payload.offset) && payload.offset >= 0) {
+      return payload;
+    }
+  } catch {
+    // Fall through to invalid cursor
+  }
+  return null;
+}
+
+function parsePositiveInt(
+  value: string | null,
+  name: string,
+  max: number,
+  issues: string[]
+): number | undefined {
+  if (value === null || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    issues.push(`${name} must be a whole number between 1 and ${max}`);
+    return undefined;
+  }
+  return number;
+}
+
+/**
+ * Parse paging parameters from URL search params
+ * Returns null when no paging was requested (the full list is returned)
+ */
+export function parsePageRequest(searchParams: URLSearchParams): PageRequest | null {
+  const issues: string[] = [];
+
+  const rawCursor = searchParams.get('cursor');
+  const page = parsePositiveInt(searchParams.get('page'), 'page', Number.MAX_SAFE_INTEGER, issues);
+  const pageSize = parsePositiveInt(searchParams.get('pageSize'), 'pageSize', MAX_PAGE_SIZE, issues);
+  const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+
+  if (rawCursor && !cursor) issues.push('cursor is invalid');
+  if (rawCursor && page !== undefined) issues.push('use either cursor or page, not both');
+
+  if (issues.length > 0) {
+    throw new QueryValidationError(issues);
+  }
+
+  if (!cursor && page === undefined && pageSize === undefined) {
+    return null;
+  }
+
+  const size = pageSize ?? DEFAULT_PAGE_SIZE;
+  return cursor
+    ? { offset: cursor.offset, pageSize: size, afterId: cursor.id }
+    : { offset: ((page ?? 1) - 1) * size, pageSize: size };
+}
+
+/**
+ * Slice a sorted list into the requested page.
+ * Cursors resume after the review they point at, so reviews added or
+ * removed earlier in the list don't cause skipped or repeated items;
+ * if that review has disappeared, the stored offset is used instead.
+ */
+export function paginate<T extends { id: string }>(
+  items: T[],
+  request: PageRequest
+): { items: T[]; pagination: ReviewPagination } {
+  let start = request.offset;
+  if (request.afterId !== undefined) {
+    const index = items.findIndex(item => item.id === request.afterId);
+    if (index !== -1) start = index + 1;
+  }
+
+  const pageItems = items.slice(start, start + request.pageSize);
+  const end = start + pageItems.length;
+  const hasMore = end < items.length;
+
+  return {
+    items: pageItems,
+    pagination: {
+      page: Math.floor(start / request.pageSize) + 1,
+      pageSize: request.pageSize,
+      totalPages: Math.ceil(items.length / request.pageSize),
+      hasMore,
+      nextCursor: hasMore && pageItems.length > 0
+        ? encodeCursor({ id: pageItems[pageItems.length - 1].id, offset: end })
+        : null,
+    },
+  };
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * Build the query string for the given filters, sort and paging.
+ * Mirrors the parsers above so client and server stay in sync.
+ */
+export function buildReviewQuery(
+  filters: ReviewFilters,
+  sort?: ReviewSort,
+  paging?: { pageSize?: number; cursor?: string | null }
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.propertyId) params.set('propertyId', filters.propertyId);
+  if (filters.channel) params.set('channel', filters.channel);
+  if (filters.type && filters.type !== 'all') params.set('type', filters.type);
+  if (filters.status && filters.status !== 'all') params.set('status', filters.status);
+  if (filters.minRating !== undefined) params.set('minRating', String(filters.minRating));
+  if (filters.maxRating !== undefined) params.set('maxRating', String(filters.maxRating));
+  if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
+  if (filters.dateTo) params.set('dateTo', filters.dateTo);
+  if (filters.approvedOnly) params.set('approvedOnly', 'true');
+  filters.categories?.forEach(({ category, min, max }) => {
+    params.append('category', `${category}:${min ?? ''}:${max ?? ''}`);
+  });
+  if (filters.minNights !== undefined) params.set('minNights', String(filters.minNights));
+  if (filters.maxNights !== undefined) params.set('maxNights', String(filters.maxNights));
+  if (filters.season) params.set('season', filters.season);
+  if (filters.issue) params.set('issue', filters.issue);
+
+  if (sort) {
+    params.set('sort', sort.field === 'category' ? `category:${sort.category}` : sort.field);
+    params.set('order', sort.order);
+  }
+
+  if (paging?.pageSize) params.set('pageSize', String(paging.pageSize));
+  if (paging?.cursor) params.set('cursor', paging.cursor);
+
+  return params;
+}
+
+/**
+ * Build the query string for public review options and paging
+ */
+export function buildPublicReviewQuery(
+  query: PublicReviewQuery,
+  paging?: { pageSize?: number; cursor?: string | null }
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.sort !== 'newest') params.set('sort', query.sort);
+  if (query.stars !== undefined) params.set('stars', String(query.stars));
+  if (query.stay) params.set('stay', query.stay);
+  if (query.search) params.set('q', query.search);
+
+  if (paging?.pageSize) params.set('pageSize', String(paging.pageSize));
+  if (paging?.cursor) params.set('cursor', paging.cursor);
+
+  return params;
+}
+
+/**
+ * Build the query string for analytics filters and bucketing
+ */
+export function buildAnalyticsQuery(
+  filters: ReviewFilters,
+  query: AnalyticsQuery
+): URLSearchParams {
+  const params = buildReviewQuery(filters);
+  params.set('interval', query.interval);
+  params.set('groupBy', query.groupBy);
+  return params;
+}
+
+/**
+ * Build the query string for issue report filters and bucketing
+ */
+export function buildIssueQuery(filters: ReviewFilters, query: IssueQuery): URLSearchParams {
+  const params = buildReviewQuery(filters);
+  params.set('interval', query.interval);
+  return params;
+}
@@ -0,0 +1,216 @@
+/**
+ * Raw Review Schemas
+ *
+ * Runtime validation of upstream review records before normalization.
+ * Upstream payloads are not trusted: a record that fails validation is
+ * quarantined by the sync job with the reasons returned here, instead of
+ * throwing during normalization or producing an "Invalid Date".
+ * Hostaway listings and reservations are checked the same way before they
+ * are stored.
+ *
+ * Each validator returns a list of issues; an empty list means the record
+ * matches the shape its normalizer expects.
+ */
+
+import { toUtcISOString } from '@/lib/dates';
+
+// ============================================================================
+// Field Checks
+// ============================================================================
+
+type RawRecord = Record<string, unknown>;
+
+const HOSTAWAY_TYPES = ['guest-to-host', 'host-to-guest'];
+const HOSTAWAY_STATUSES = ['published', 'pending', 'rejected'];
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Whether a string is a date-time (Hostaway's `YYYY-MM-DD HH:mm:ss` or
+ * ISO 8601) that parses to a real date
+ */
+function isValidDateTime(value: unknown): boolean {
+  return typeof value === 'string' && toUtcISOString(value) !== null;
+}
+
+/**
+ * Whether a string is a real `YYYY-MM-DD` calendar date
+ */
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    toUtcISOString(value) !== null;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : `${typeof value} ${String(value)}`;
+}
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/**
+ * Validate a raw Hostaway review
+ */
+export function validateHostawayReview(raw: unknown): string[] {
+  if (!isRecord(raw)) return [`record must be an object (got ${describe(raw)})`];
+
+  const issues: string[] = [];
+
+  if (!Number.isInteger(raw.id)) {
+    issues.push(`id must be an integer (got ${describe(raw.id)})`);
+  }
+  if (!HOSTAWAY_TYPES.includes(raw.type as string)) {
+    issues.push(`type must be one of ${HOSTAWAY_TYPES.join(', ')} (got ${describe(raw.type)})`);
+  }
+  if (!HOSTAWAY_STATUSES.includes(raw.status as string)) {
+    issues.push(`status must be one of ${HOSTAWAY_STATUSES.join(', ')} (got ${describe(raw.status)})`);
+  }
+  if (raw.rating !== null && raw.rating !== undefined && !isFiniteNumber(raw.rating)) {
+    issues.push(`rating must be a number or null (got ${describe(raw.rating)})`);
+  }
+  if (typeof raw.publicReview !== 'string') {
+    issues.push(`publicReview must be a string (got ${describe(raw.publicReview)})`);
+  }
+  if (raw.privateReview !== undefined && raw.privateReview !== null &&
+      typeof raw.privateReview !== 'string') {
+    issues.push(`privateReview must be a string (got ${describe(raw.privateReview)})`);
+  }
+  if (!isValidDateTime(raw.submittedAt)) {
+    issues.push(`submittedAt must be a valid date-time (got ${describe(raw.submittedAt)})`);
+  }
+  if (!isNonEmptyString(raw.guestName)) {
+    issues.push(`guestName must be a non-empty string (got ${describe(raw.guestName)})`);
+  }
+  if (!isNonEmptyString(raw.listingName)) {
+    issues.push(`listingName must be a non-empty string (got ${describe(raw.listingName)})`);
+  }
+  if (raw.listingId !== undefined && raw.listingId !== null && !Number.isInteger(raw.listingId)) {
+    issues.push(`listingId must be an integer (got ${describe(raw.listingId)})`);
+  }
+  if (raw.channelName !== undefined && raw.channelName !== null &&
+      typeof raw.channelName !== 'string') {
+    issues.push(`channelName must be a string (got ${describe(raw.channelName)})`);
+  }
+  if (raw.reservationId !== undefined && raw.reservationId !== null &&
+      !Number.isInteger(raw.reservationId)) {
+    issues.push(`reservationId must be an integer (got ${describe(raw.reservationId)})`);
+  }
+
+  if (!Array.isArray(raw.reviewCategory)) {
+    issues.push(`reviewCategory must be an array (got ${describe(raw.reviewCategory)})`);
+  } else {
+    raw.reviewCategory.forEach((category, index) => {
+      if (!isRecord(category) || !isNonEmptyString(category.category)) {
+        issues.push(`reviewCategory[${index}].category must be a non-empty string`);
+      } else if (!isFiniteNumber(category.rating)) {
+        issues.push(
+          `reviewCategory[${index}] (${category.category}) rating must be a number ` +
+          `(got ${describe(category.rating)})`
+        );
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a Google review together with its place link
+ */
+export function validateGoogleReviewRecord(raw: unknown): string[] {
+  if (!isRecord(raw)) return [`record must be an object (got ${describe(raw)})`];
+  if (!isRecord(raw.place)) return ['place link is missing'];
+  if (!isRecord(raw.review)) return ['review must be an object'];
+
+  const { place, review } = raw;
+  const issues: string[] = [];
+
+  if (!isNonEmptyString(place.placeId)) issues.push('place.placeId must be a non-empty string');
+  if (!isNonEmptyString(place.propertyId)) issues.push('place.propertyId must be a non-empty string');
+  if (!isNonEmptyString(place.listingName)) issues.push('place.listingName must be a non-empty string');
+
+  if (!isNonEmptyString(review.author_name)) {
+    issues.push(`author_name must be a non-empty string (got ${describe(review.author_name)})`);
+  }
+  if (!Number.isInteger(review.rating) || (review.rating as number) < 1 || (review.rating as number) > 5) {
+    issues.push(`rating must be a whole number from 1 to 5 (got ${describe(review.rating)})`);
+  }
+  if (typeof review.text !== 'string') {
+    issues.push(`text must be a string (got ${describe(review.text)})`);
+  }
+  if (!Number.isInteger(review.time) || (review.time as number) <= 0) {
+    issues.push(`time must be a positive Unix timestamp in seconds (got ${describe(review.time)})`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a raw Hostaway listing
+ * Optional details are not checked here; missing or malformed ones are
+ * left out when the listing is mapped into the catalog.
+ */
+export function validateHostawayListing(raw: unknown): string[] {
+  if (!isRecord(raw)) return [`listing must be an object (got ${describe(raw)})`];
+
+  const issues: string[] = [];
+
+  if (!Number.isInteger(raw.id) || (raw.id as number) <= 0) {
+    issues.push(`id must be a positive integer (got ${describe(raw.id)})`);
+  }
+  if (!isNonEmptyString(raw.name)) {
+    issues.push(`name must be a non-empty string (got ${describe(raw.name)})`);
+  }
+  if (raw.listingAmenities !== undefined && raw.listingAmenities !== null &&
+      !Array.isArray(raw.listingAmenities)) {
+    issues.push(`listingAmenities must be an array (got ${describe(raw.listingAmenities)})`);
+  }
+  if (raw.listingImages !== undefined && raw.listingImages !== null &&
+      !Array.isArray(raw.listingImages)) {
+    issues.push(`listingImages must be an array (got ${describe(raw.listingImages)})`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a raw Hostaway reservation
+ */
+export function validateHostawayReservation(raw: unknown): string[] {
+  if (!isRecord(raw)) return [`reservation must be an object (got ${describe(raw)})`];
+
+  const issues: string[] = [];
+
+  if (!Number.isInteger(raw.id)) {
+    issues.push(`id must be an integer (got ${describe(raw.id)})`);
+  }
+  if (!isValidDate(raw.arrivalDate)) {
+    issues.push(`arrivalDate must be a YYYY-MM-DD date (got ${describe(raw.arrivalDate)})`);
+  }
+  if (!isValidDate(raw.departureDate)) {
+    issues.push(`departureDate must be a YYYY-MM-DD date (got ${describe(raw.departureDate)})`);
+  }
+  if (isValidDate(raw.arrivalDate) && isValidDate(raw.departureDate) &&
+      (raw.departureDate as string) <= (raw.arrivalDate as string)) {
+    issues.push('departureDate must be after arrivalDate');
+  }
+  if (raw.totalPrice !== undefined && raw.totalPrice !== null && !isFiniteNumber(raw.totalPrice)) {
+    issues.push(`totalPrice must be a number (got ${describe(raw.totalPrice)})`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,143 @@
+/**
+ * Review Data Service
+ *
+ * Serves normalized reviews from the local review store, syncing from the
+ * enabled review sources when the stored copy is older than the cache TTL.
+ * Responses report where the data came from, so managers can tell whether
+ * they are looking at live data, sample data or a stored copy.
+ *
+ * If a sync fails but the store already holds reviews, those are served
+ * with mode `cache` and the upstream error; failed syncs are not retried
+ * until the TTL passes again. If only some sources fail, the others are
+ * still synced and each failure is reported in `source.sources`.
+ */
+
+import { getConfig, ConfigError, type AppConfig } from '@/lib/config';
+import { isCacheExpired, readReviewStore } from '@/lib/review-store';
+import { syncReviews } from '@/lib/review-sync';
+import { getEnabledReviewSources } from '@/lib/sources';
+import type {
+  NormalizedReview,
+  RejectedSummary,
+  ReviewDataSource,
+  ReviewSourceStatus,
+} from '@/types/review';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Stored reviews plus their provenance (`returned` is set by the caller)
+ * and the number of upstream records quarantined as malformed
+ */
+export interface ReviewsResult {
+  reviews: NormalizedReview[];
+  rejected: RejectedSummary;
+  source: Omit<ReviewDataSource, 'recordCounts'> & {
+    recordCounts: Omit<ReviewDataSource['recordCounts'], 'returned'>;
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Whether the last sync attempt is older than the configured TTL
+ */
+function isStale(lastAttemptAt: string | undefined, config: AppConfig): boolean {
+  if (!lastAttemptAt) return true;
+  return Date.now() - new Date(lastAttemptAt).getTime() >= config.cacheTtlSeconds * 1000;
+}
+
+/**
+ * Get all stored reviews from enabled sources with provenance, syncing
+ * first if the store is stale. Reviews are linked to their reservation;
+ * approval state is not applied.
+ */
+export async function getReviews(config: AppConfig = getConfig()): Promise<ReviewsResult> {
+  let snapshot = await readReviewStore();
+  let failure: unknown = null;
+
+  if (isStale(snapshot.lastSync?.finishedAt, config)) {
+    try {
+      await syncReviews();
+    } catch (error) {
+      // Misconfiguration must surface; anything else can fall back to the store
+      if (error instanceof ConfigError) throw error;
+      console.error('Review sync failed:', error);
+      failure = error;
+    }
+    snapshot = await readReviewStore();
+  }
+
+  const lastSync = snapshot.lastSync;
+  const lastSuccess = snapshot.lastSuccessfulSync;
+  const syncError = lastSync?.error;
+
+  // Nothing has ever been synced: there is no data to fall back to
+  if (!lastSuccess) {
+    throw failure ?? new Error(syncError || 'No reviews have been synced yet');
+  }
+
+  // Reviews of sources that have since been disabled, or kept longer than
+  // their source allows because syncs failed, are not served
+  const enabledSources = getEnabledReviewSources(config);
+  const enabledIds = new Set(enabledSources.map(source => source.id));
+  const stored = Object.values(snapshot.reviews)
+    .filter(entry => enabledIds.has(entry.source) && !isCacheExpired(entry));
+
+  // Link each review to its stay
+  const reviews = stored.map(entry => ({
+    ...entry.review,
+    reservation: entry.review.reservationId
+      ? snapshot.reservations[entry.review.reservationId] ?? null
+      : null,
+  }));
+
+  const sources: ReviewSourceStatus[] = enabledSources.map(source => {
+    const result = lastSync?.sources.find(entry => entry.source === source.id);
+    const error = result?.error ?? syncError;
+    return {
+      id: source.id,
+      displayName: source.displayName,
+      status: error ? 'error' : 'ok',
+      reviewCount: stored.filter(entry => entry.source === source.id).length,
+      ...(error && { error }),
+      ...(result?.errorCode && { errorCode: result.errorCode }),
+    };
+  });
+
+  const rejected: RejectedSummary = { total: 0, bySource: {} };
+  Object.values(snapshot.quarantine)
+    .filter(entry => enabledIds.has(entry.source))
+    .forEach(entry => {
+      rejected.total++;
+      rejected.bySource[entry.source] = (rejected.bySource[entry.source] ?? 0) + 1;
+    });
+
+  const failedSources = sources.filter(source => source.status === 'error');
+  const upstreamError = syncError ?? failedSources
+    .map(source => `${source.displayName}: ${source.error}`)
+    .join('; ');
+  const upstreamStatus = upstreamError
+    ? 'error'
+    : lastSuccess.mode === 'live' ? 'ok' : 'not_contacted';
+
+  return {
+    reviews,
+    rejected,
+    source: {
+      mode: syncError ? 'cache' : lastSuccess.mode,
+      fetchedAt: lastSuccess.finishedAt,
+      upstreamStatus,
+      ...(upstreamError && { upstreamError }),
+      recordCounts: {
+        received: lastSuccess.received,
+        normalized: reviews.length,
+      },
+      sources,
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setPropertyCatalogStoreAdapter } from '@/lib/property-catalog';
+import {
+  JsonFileReviewStoreAdapter,
+  readReviewStore,
+  REVIEW_STORE_VERSION,
+  setReviewStoreAdapter,
+  type ReviewStoreSnapshot,
+  type StoredReview,
+} from '@/lib/review-store';
+import type { HostawayApiResponse, HostawayReview } from '@/types/review';
+import { createReview } from '@/test/fixtures';
+import { createReviewStoreSnapshot, MemoryCatalogStore, MemoryReviewStore } from '@/test/stores';
+
+// Recorded Hostaway reviews response
+import mockReviews from '@/data/mock-reviews.json';
+
+const [first, second] = (mockReviews as HostawayApiResponse).result;
+const SYNCED_AT = '2024-12-01T09:00:00.000Z';
+
+/**
+ * A stored Hostaway review whose normalized copy is out of date
+ */
+function staleRecord(raw: HostawayReview): StoredReview {
+  return {
+    source: 'hostaway',
+    review: createReview({ id: String(raw.id), content: 'stale' }),
+    raw,
+    firstSyncedAt: SYNCED_AT,
+    lastSyncedAt: SYNCED_AT,
+  };
+}
+
+function olderSnapshot(reviews: HostawayReview[]): ReviewStoreSnapshot {
+  return createReviewStoreSnapshot({
+    version: REVIEW_STORE_VERSION - 1,
+    reviews: Object.fromEntries(reviews.map(raw => [String(raw.id), staleRecord(raw)])),
+    watermarks: { hostaway: SYNCED_AT },
+  });
+}
+
+describe('readReviewStore', () => {
+  beforeEach(() => {
+    setPropertyCatalogStoreAdapter(new MemoryCatalogStore());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('re-normalizes reviews from an older version and writes them back once', async () => {
+    const store = new MemoryReviewStore(olderSnapshot([first, second]));
+    setReviewStoreAdapter(store);
+
+    const snapshot = await readReviewStore();
+    await readReviewStore();
+
+    expect(snapshot.version).toBe(REVIEW_STORE_VERSION);
+    expect(snapshot.reviews[String(first.id)].review.content).toBe(first.publicReview);
+    expect(snapshot.watermarks).toEqual({ hostaway: SYNCED_AT });
+    expect(store.writes).toBe(1);
+    expect(store.snapshot).toEqual(snapshot);
+  });
+
+  it('quarantines stored reviews that no longer normalize', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = { ...second, submittedAt: 'not a date' };
+    const store = new MemoryReviewStore(olderSnapshot([first, broken]));
+    setReviewStoreAdapter(store);
+
+    const snapshot = await readReviewStore();
+
+    expect(Object.keys(snapshot.reviews)).toEqual([String(first.id)]);
+    expect(Object.values(snapshot.quarantine)).toEqual([
+      expect.objectContaining({
+        source: 'hostaway',
+        recordId: String(second.id),
+        issues: ['normalization failed: Invalid submittedAt "not a date"'],
+        raw: broken,
+      }),
+    ]);
+  });
+
+  it('fills in the fields a version 1 store file does not have', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'review-store-'));
+    const filePath = join(directory, 'reviews.json');
+    // Layout written by version 1: no sources, one shared watermark
+    await writeFile(filePath, JSON.stringify({
+      version: 1,
+      reviews: { [String(first.id)]: { ...staleRecord(first), source: undefined } },
+      watermark: SYNCED_AT,
+      lastSync: null,
+      lastSuccessfulSync: null,
+    }));
+    setReviewStoreAdapter(new JsonFileReviewStoreAdapter(filePath));
+
+    try {
+      const snapshot = await readReviewStore();
+
+      expect(snapshot).toMatchObject({
+        version: REVIEW_STORE_VERSION,
+        watermarks: { hostaway: SYNCED_AT },
+        quarantine: {},
+        reservations: {},
+        lastFullSyncAt: null,
+      });
+      expect(snapshot).not.toHaveProperty('watermark');
+      expect(snapshot.reviews[String(first.id)]).toMatchObject({
+        source: 'hostaway',
+        review: { content: first.publicReview },
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('returns a current snapshot as stored', async () => {
+    const current = { ...olderSnapshot([first]), version: REVIEW_STORE_VERSION };
+    const store = new MemoryReviewStore(current);
+    setReviewStoreAdapter(store);
+
+    expect(await readReviewStore()).toEqual(current);
+    expect(store.writes).toBe(0);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Review Store
+ *
+ * Local repository of normalized reviews from every review source, keyed by
+ * normalized review ID, plus the reservations those reviews refer to.
+ * Reviews are written by the sync job (`src/lib/review-sync.ts`) and read by
+ * the API, so the dashboard keeps working when Hostaway is down and reviews
+ * that disappear upstream are kept as history.
+ *
+ * Each record keeps the raw upstream payload next to the normalized review.
+ * When normalization rules or the snapshot layout change, bump
+ * `REVIEW_STORE_VERSION` (it only ever goes up) and stored reviews are
+ * re-normalized from their raw payload on the next read; a record that no
+ * longer normalizes is moved to the quarantine, and the result is written
+ * back so it happens only once.
+ *
+ * Storage is behind the `ReviewStoreAdapter` interface so the JSON file used
+ * in development can be swapped for a database-backed adapter.
+ */
+
+import { createHash } from 'crypto';
+import { getConfig, type DataSourceMode } from '@/lib/config';
+import { readJsonFile, writeJsonFile } from '@/lib/json-file';
+import { getReviewSource, type ReviewSource } from '@/lib/sources';
+import { getPropertyCatalog, type PropertyCatalog } from '@/lib/property-catalog';
+import type { NormalizedReview, QuarantinedRecord } from '@/types/review';
+import type { ReservationInfo } from '@/types/reservation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Increment whenever normalization output changes
+ */
+export const REVIEW_STORE_VERSION = 10;
+
+/**
+ * A stored review with its raw payload and sync history
+ * `review.isApprovedForDisplay` is not meaningful here; approvals are
+ * applied when reviews are read
+ */
+export interface StoredReview {
+  /** ID of the review source the review was synced from */
+  source: string;
+  review: NormalizedReview;
+  raw: unknown;
+  firstSyncedAt: string;
+  /** Last time the source returned the review */
+  lastSyncedAt: string;
+  removedUpstreamAt?: string;
+}
+
+/**
+ * Outcome of syncing one review source
+ */
+export interface SourceSyncResult {
+  source: string;
+  received: number;
+  added: number;
+  updated: number;
+  removed: number;
+  /** Records that failed validation and were quarantined */
+  rejected: number;
+  error?: string;
+  errorCode?: string;
+}
+
+/**
+ * Outcome of reading the reservations linked to reviews
+ */
+export interface ReservationSyncResult {
+  received: number;
+  /** Reservations referenced by a stored review, the ones kept */
+  linked: number;
+  /** Reservations that failed validation and were skipped */
+  rejected: number;
+  error?: string;
+}
+
+/**
+ * Outcome of a single sync run
+ * Counts are totals across sources. `error` is only set when the sync
+ * failed as a whole; a single failing source is reported in `sources`.
+ */
+export interface SyncRecord {
+  startedAt: string;
+  finishedAt: string;
+  mode: DataSourceMode;
+  full: boolean;
+  received: number;
+  added: number;
+  updated: number;
+  removed: number;
+  rejected: number;
+  sources: SourceSyncResult[];
+  /** Unset when reservations were not read (e.g. in `file` mode) */
+  reservations?: ReservationSyncResult;
+  error?: string;
+}
+
+/**
+ * Full persisted state of the store
+ */
+export interface ReviewStoreSnapshot {
+  version: number;
+  reviews: Record<string, StoredReview>;
+  /** Latest `submittedAt` seen per source (ISO), the incremental sync watermarks */
+  watermarks: Record<string, string>;
+  /** Upstream records that failed validation, keyed by source and content hash */
+  quarantine: Record<string, QuarantinedRecord>;
+  /** Reservations referenced by stored reviews, keyed by reservation ID */
+  reservations: Record<string, ReservationInfo>;
+  lastSync: SyncRecord | null;
+  lastSuccessfulSync: SyncRecord | null;
+  /** Start of the last full sync in which every source succeeded */
+  lastFullSyncAt: string | null;
+}
+
+/**
+ * Storage backend for the review store
+ */
+export interface ReviewStoreAdapter {
+  read(): Promise<ReviewStoreSnapshot>;
+  write(snapshot: ReviewStoreSnapshot): Promise<void>;
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+function createEmptySnapshot(): ReviewStoreSnapshot {
+  return {
+    version: REVIEW_STORE_VERSION,
+    reviews: {},
+    watermarks: {},
+    quarantine: {},
+    reservations: {},
+    lastSync: null,
+    lastSuccessfulSync: null,
+    lastFullSyncAt: null,
+  };
+}
+
+/**
+ * Stores the review snapshot in a JSON file on disk
+ */
+export class JsonFileReviewStoreAdapter implements ReviewStoreAdapter {
+  constructor(private readonly filePath: string) {}
+
+  async read(): Promise<ReviewStoreSnapshot> {
+    return readJsonFile(this.filePath, createEmptySnapshot);
+  }
+
+  async write(snapshot: ReviewStoreSnapshot): Promise<void> {
+    await writeJsonFile(this.filePath, snapshot);
+  }
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+let adapter: ReviewStoreAdapter | null = null;
+
+/**
+ * Get the active adapter, defaulting to the configured store file
+ */
+function getAdapter(): ReviewStoreAdapter {
+  if (!adapter) {
+    adapter = new JsonFileReviewStoreAdapter(getConfig().reviewStoreFile);
+  }
+  return adapter;
+}
+
+/**
+ * Replace the storage backend (e.g. with a database adapter)
+ */
+export function setReviewStoreAdapter(next: ReviewStoreAdapter): void {
+  adapter = next;
+}
+
+/**
+ * Quarantine key: source plus a hash of the record's content
+ */
+export function getQuarantineKey(sourceId: string, raw: unknown): string {
+  const hash = createHash('sha1').update(JSON.stringify(raw) ?? 'undefined').digest('hex');
+  return `${sourceId}:${hash.slice(0, 16)}`;
+}
+
+/**
+ * Best-effort upstream ID for a record that failed validation
+ */
+export function tryIdentify(source: ReviewSource, raw: unknown): string | null {
+  try {
+    return source.identify(raw) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a stored review was last fetched longer ago than its source may
+ * cache reviews
+ */
+export function isCacheExpired(stored: StoredReview, now: number = Date.now()): boolean {
+  const maxAge = getReviewSource(stored.source)?.maxCacheAgeSeconds;
+  if (maxAge === undefined) return false;
+  return now - new Date(stored.lastSyncedAt).getTime() > maxAge * 1000;
+}
+
+/**
+ * Snapshot layout before version 3 (`watermark`), 6 (no `quarantine`),
+ * 9 (no `reservations`) and 10 (no `lastFullSyncAt`)
+ */
+interface LegacySnapshot {
+  watermark?: string | null;
+  quarantine?: Record<string, QuarantinedRecord>;
+  reservations?: Record<string, ReservationInfo>;
+  lastFullSyncAt?: string | null;
+}
+
+/**
+ * Re-normalize stored reviews written by another version
+ * Reviews whose raw payload no longer normalizes are quarantined instead,
+ * so one bad record cannot break every read.
+ * - Version 1 stores only held Hostaway reviews and had no `source`
+ * - Versions 1-2 kept a single watermark shared by all sources
+ * - Versions 1-5 had no quarantine
+ * - Versions 1-8 had no reservations
+ * - Versions 1-9 did not record full syncs
+ */
+function migrateSnapshot(
+  snapshot: ReviewStoreSnapshot & LegacySnapshot,
+  catalog: PropertyCatalog
+): ReviewStoreSnapshot {
+  const migratedAt = new Date().toISOString();
+  const reviews: Record<string, StoredReview> = {};
+  const quarantine = { ...snapshot.quarantine };
+
+  Object.entries(snapshot.reviews).forEach(([id, record]) => {
+    const stored = { ...record, source: record.source ?? 'hostaway' };
+    const source = getReviewSource(stored.source);
+    if (!source) {
+      reviews[id] = stored;
+      return;
+    }
+
+    try {
+      reviews[id] = { ...stored, review: source.normalize(stored.raw, catalog) };
+    } catch (error) {
+      console.error(`Stored review ${id} no longer normalizes, quarantining it:`, error);
+      quarantine[getQuarantineKey(source.id, stored.raw)] = {
+        source: source.id,
+        recordId: tryIdentify(source, stored.raw) ?? id,
+        issues: [`normalization failed: ${error instanceof Error ? error.message : String(error)}`],
+        raw: stored.raw,
+        firstSeenAt: migratedAt,
+        lastSeenAt: migratedAt,
+      };
+    }
+  });
+
+  const { watermark, ...rest } = snapshot;
+  const watermarks: Record<string, string> = { ...snapshot.watermarks };
+  if (watermark) {
+    new Set(Object.values(reviews).map(stored => stored.source)).forEach(source => {
+      watermarks[source] ??= watermark;
+    });
+  }
+
+  // Older sync records have no per-source results or rejection counts
+  const withSources = (record: SyncRecord | null) => record && {
+    ...record,
+    rejected: record.rejected ?? 0,
+    sources: record.sources ?? [],
+  };
+
+  return {
+    ...rest,
+    version: REVIEW_STORE_VERSION,
+    reviews,
+    watermarks,
+    quarantine,
+    reservations: snapshot.reservations ?? {},
+    lastSync: withSources(snapshot.lastSync),
+    lastSuccessfulSync: withSources(snapshot.lastSuccessfulSync),
+    lastFullSyncAt: snapshot.lastFullSyncAt ?? null,
+  };
+}
+
+/**
+ * Read the current store snapshot
+ * A snapshot from another version is migrated and written back.
+ */
+export async function readReviewStore(): Promise<ReviewStoreSnapshot> {
+  const snapshot = await getAdapter().read();
+  if (snapshot.version === REVIEW_STORE_VERSION) return snapshot;
+
+  const migrated = migrateSnapshot(snapshot, await getPropertyCatalog());
+  await writeReviewStore(migrated).catch(error => {
+    console.error('Error writing migrated review store:', error);
+  });
+  return migrated;
+}
+
+/**
+ * Persist a store snapshot
+ */
+export async function writeReviewStore(snapshot: ReviewStoreSnapshot): Promise<void> {
+  await getAdapter().write(snapshot);
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { setPropertyCatalogStoreAdapter } from '@/lib/property-catalog';
+import { setReviewStoreAdapter } from '@/lib/review-store';
+import { syncReviews } from '@/lib/review-sync';
+import { MemoryCatalogStore, MemoryReviewStore } from '@/test/stores';
+
+describe('syncReviews', () => {
+  let store: MemoryReviewStore;
+
+  beforeEach(() => {
+    store = new MemoryReviewStore();
+    setReviewStoreAdapter(store);
+    setPropertyCatalogStoreAdapter(new MemoryCatalogStore());
+  });
+
+  it('runs a full sync into an empty store', async () => {
+    const record = await syncReviews();
+
+    expect(record.full).toBe(true);
+    expect(record.added).toBeGreaterThan(0);
+    expect(store.snapshot.lastFullSyncAt).toBe(record.startedAt);
+  });
+
+  it('syncs incrementally while the last full sync is recent', async () => {
+    await syncReviews();
+
+    const record = await syncReviews();
+
+    expect(record).toMatchObject({ full: false, added: 0, updated: 0 });
+  });
+
+  it('runs a full sync once the last one is older than the interval', async () => {
+    await syncReviews();
+    store.snapshot.lastFullSyncAt = '2020-01-01T00:00:00.000Z';
+
+    const record = await syncReviews();
+
+    expect(record.full).toBe(true);
+    expect(store.snapshot.lastFullSyncAt).toBe(record.startedAt);
+  });
+
+  it('deletes Google reviews once they are cached longer than allowed', async () => {
+    await syncReviews();
+    const ids = Object.keys(store.snapshot.reviews);
+    const googleId = ids.find(id => store.snapshot.reviews[id].source === 'google')!;
+    const hostawayId = ids.find(id => store.snapshot.reviews[id].source === 'hostaway')!;
+    store.snapshot.reviews['google:gone'] = {
+      ...store.snapshot.reviews[googleId],
+      lastSyncedAt: '2020-01-01T00:00:00.000Z',
+    };
+    store.snapshot.reviews[hostawayId].lastSyncedAt = '2020-01-01T00:00:00.000Z';
+
+    await syncReviews();
+
+    expect(store.snapshot.reviews['google:gone']).toBeUndefined();
+    expect(store.snapshot.reviews[googleId]).toBeDefined();
+    expect(store.snapshot.reviews[hostawayId]).toBeDefined();
+  });
+
+  it('shares one run between concurrent callers', async () => {
+    await syncReviews();
+
+    const [first, second] = await Promise.all([syncReviews(), syncReviews()]);
+
+    expect(second).toBe(first);
+  });
+
+  it('queues a full sync asked for during an incremental one', async () => {
+    await syncReviews();
+
+    const [incremental, full, sharedFull] = await Promise.all([
+      syncReviews(),
+      syncReviews({ full: true }),
+      syncReviews({ full: true }),
+    ]);
+
+    expect(incremental.full).toBe(false);
+    expect(full.full).toBe(true);
+    expect(full.startedAt >= incremental.finishedAt).toBe(true);
+    expect(sharedFull).toBe(full);
+  });
+});
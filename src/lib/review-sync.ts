@@ -0,0 +1,373 @@
+/**
+ * Review Sync Job
+ *
+ * Pulls reviews from every enabled review source (see `src/lib/sources`)
+ * into the local review store. Sources are fetched in parallel and a failing
+ * source does not stop the others: its stored reviews are kept and the
+ * failure is reported in the sync record's `sources`.
+ *
+ * Every raw record is validated first. Records that fail validation (or
+ * whose normalization throws) are quarantined with the reasons instead of
+ * being stored; a source's quarantine is rebuilt on each successful fetch,
+ * so fixed records leave it on the next sync.
+ *
+ * - Incremental sync (default): only reviews submitted after the source's
+ *   watermark, or not stored yet, are written. Hostaway's reviews endpoint
+ *   has no submitted-date filter, so pages are still read in full. Edits and
+ *   status changes to older reviews are not picked up.
+ * - Full sync: every upstream review is refreshed and stored reviews that
+ *   are no longer returned are marked `removedUpstreamAt`. They are only
+ *   deleted once a source's `maxCacheAgeSeconds` has passed since the
+ *   source last returned them (Google: 24 hours). A sync is full when asked for, and also when the last full sync is older
+ *   than REVIEWS_FULL_SYNC_INTERVAL, so edits reach the store eventually.
+ *
+ * After the reviews, the Hostaway reservations they refer to are stored so
+ * each review can be linked to its stay; a failed reservation fetch keeps
+ * the reservations from the previous sync.
+ *
+ * The first sync into an empty store is always full. Concurrent callers
+ * share a single in-flight sync, except that a full sync asked for while an
+ * incremental one runs is queued to start right after it.
+ */
+
+import { getConfig, type AppConfig } from '@/lib/config';
+import { getEnabledReviewSources, type ReviewSource } from '@/lib/sources';
+import { getPropertyCatalog, type PropertyCatalog } from '@/lib/property-catalog';
+import { isListingSyncEnabled, syncListings } from '@/lib/listing-sync';
+import {
+  fetchReservations,
+  isReservationSyncEnabled,
+  mapHostawayReservation,
+} from '@/lib/reservations';
+import { validateHostawayReservation } from '@/lib/review-schema';
+import {
+  getQuarantineKey,
+  isCacheExpired,
+  readReviewStore,
+  tryIdentify,
+  writeReviewStore,
+  type ReservationSyncResult,
+  type ReviewStoreSnapshot,
+  type SourceSyncResult,
+  type SyncRecord,
+} from '@/lib/review-store';
+import type { NormalizedReview } from '@/types/review';
+import type { HostawayReservation, ReservationInfo } from '@/types/reservation';
+
+export interface SyncOptions {
+  full?: boolean;
+}
+
+let inFlightSync: { full: boolean; promise: Promise<SyncRecord> } | null = null;
+let queuedFullSync: Promise<SyncRecord> | null = null;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Error code carried by API client errors (e.g. HostawayApiError)
+ */
+function getErrorCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Whether the next sync must be full: nothing has been synced yet, or the
+ * last complete full sync is older than the full-sync interval
+ */
+function isFullSyncDue(snapshot: ReviewStoreSnapshot, config: AppConfig): boolean {
+  if (snapshot.lastSuccessfulSync === null || !snapshot.lastFullSyncAt) return true;
+  const age = Date.now() - new Date(snapshot.lastFullSyncAt).getTime();
+  return age >= config.fullSyncIntervalSeconds * 1000;
+}
+
+/**
+ * Merge one source's raw reviews into the snapshot
+ */
+function applySourceReviews(
+  snapshot: ReviewStoreSnapshot,
+  source: ReviewSource,
+  rawReviews: unknown[],
+  catalog: PropertyCatalog,
+  full: boolean,
+  syncedAt: string
+): SourceSyncResult {
+  const result: SourceSyncResult = {
+    source: source.id,
+    received: rawReviews.length,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    rejected: 0,
+  };
+
+  // Rebuild this source's quarantine from the records just fetched
+  const previousQuarantine = snapshot.quarantine;
+  snapshot.quarantine = Object.fromEntries(
+    Object.entries(previousQuarantine).filter(([, entry]) => entry.source !== source.id)
+  );
+
+  const quarantine = (raw: unknown, issues: string[]) => {
+    const key = getQuarantineKey(source.id, raw);
+    result.rejected++;
+    snapshot.quarantine[key] = {
+      source: source.id,
+      recordId: tryIdentify(source, raw),
+      issues,
+      raw,
+      firstSeenAt: previousQuarantine[key]?.firstSeenAt ?? syncedAt,
+      lastSeenAt: syncedAt,
+    };
+  };
+
+  const watermark = snapshot.watermarks[source.id];
+  const watermarkTime = watermark ? new Date(watermark).getTime() : -Infinity;
+  let latestTime = watermarkTime;
+  const seenIds = new Set<string>();
+
+  for (const raw of rawReviews) {
+    const issues = source.validate(raw);
+    if (issues.length > 0) {
+      quarantine(raw, issues);
+      continue;
+    }
+
+    let id: string;
+    let review: NormalizedReview;
+    try {
+      id = source.identify(raw);
+      review = source.normalize(raw, catalog);
+    } catch (error) {
+      quarantine(raw, [`normalization failed: ${error instanceof Error ? error.message : String(error)}`]);
+      continue;
+    }
+
+    const existing = snapshot.reviews[id];
+    seenIds.add(id);
+
+    const submittedTime = new Date(review.submittedAt).getTime();
+    if (submittedTime > latestTime) latestTime = submittedTime;
+
+    // Incremental: known reviews at or before the watermark are left alone,
+    // apart from noting that the source still returns them
+    if (!full && existing && submittedTime <= watermarkTime) {
+      existing.lastSyncedAt = syncedAt;
+      continue;
+    }
+
+    if (!existing) {
+      result.added++;
+    } else if (JSON.stringify(existing.raw) !== JSON.stringify(raw) || existing.removedUpstreamAt) {
+      result.updated++;
+    }
+
+    snapshot.reviews[id] = {
+      source: source.id,
+      review,
+      raw,
+      firstSyncedAt: existing?.firstSyncedAt ?? syncedAt,
+      lastSyncedAt: syncedAt,
+    };
+  }
+
+  // Full sync: keep reviews that vanished upstream, but flag them
+  if (full) {
+    Object.entries(snapshot.reviews).forEach(([id, stored]) => {
+      if (stored.source === source.id && !seenIds.has(id) && !stored.removedUpstreamAt) {
+        stored.removedUpstreamAt = syncedAt;
+        result.removed++;
+      }
+    });
+  }
+
+  if (Number.isFinite(latestTime)) {
+    snapshot.watermarks[source.id] = new Date(latestTime).toISOString();
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Reservations
+// ============================================================================
+
+/**
+ * Replace the stored reservations with the ones stored reviews refer to
+ * A failed fetch keeps the reservations already stored.
+ */
+async function applyReservations(
+  snapshot: ReviewStoreSnapshot,
+  config: AppConfig
+): Promise<ReservationSyncResult> {
+  let rawReservations: unknown[];
+  try {
+    rawReservations = await fetchReservations(config);
+  } catch (error) {
+    console.error('Reservation fetch failed, keeping stored reservations:', error);
+    return {
+      received: 0,
+      linked: Object.keys(snapshot.reservations).length,
+      rejected: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const referencedIds = new Set(
+    Object.values(snapshot.reviews).map(stored => stored.review.reservationId)
+  );
+  const reservations: Record<string, ReservationInfo> = {};
+  let rejected = 0;
+
+  rawReservations.forEach(raw => {
+    if (validateHostawayReservation(raw).length > 0) {
+      rejected++;
+      return;
+    }
+    const reservation = mapHostawayReservation(raw as HostawayReservation);
+    if (referencedIds.has(reservation.id)) reservations[reservation.id] = reservation;
+  });
+
+  snapshot.reservations = reservations;
+  return {
+    received: rawReservations.length,
+    linked: Object.keys(reservations).length,
+    rejected,
+  };
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+async function runSync(options: SyncOptions): Promise<SyncRecord> {
+  const config = getConfig();
+  const snapshot = await readReviewStore();
+  const full = options.full === true || isFullSyncDue(snapshot, config);
+  const startedAt = new Date().toISOString();
+
+  const record: SyncRecord = {
+    startedAt,
+    finishedAt: startedAt,
+    mode: config.dataSource,
+    full,
+    received: 0,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    rejected: 0,
+    sources: [],
+  };
+
+  try {
+    const sources = getEnabledReviewSources(config);
+
+    // Refresh listing details first so reviews are normalized against them;
+    // a failed listing sync falls back to the stored catalog
+    if (isListingSyncEnabled(config)) {
+      await syncListings().catch(error => {
+        console.error('Listing sync failed, using the stored property catalog:', error);
+      });
+    }
+    const catalog = await getPropertyCatalog();
+
+    // Fan out to every source; one failure must not block the rest
+    const fetched = await Promise.allSettled(sources.map(source => source.fetch(config)));
+    let firstError: unknown = null;
+
+    fetched.forEach((outcome, index) => {
+      const source = sources[index];
+
+      if (outcome.status === 'rejected') {
+        console.error(`Review source "${source.id}" failed:`, outcome.reason);
+        firstError ??= outcome.reason;
+        record.sources.push({
+          source: source.id,
+          received: 0,
+          added: 0,
+          updated: 0,
+          removed: 0,
+          rejected: 0,
+          error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+          errorCode: getErrorCode(outcome.reason),
+        });
+        return;
+      }
+
+      const result = applySourceReviews(snapshot, source, outcome.value, catalog, full, startedAt);
+      record.sources.push(result);
+      record.received += result.received;
+      record.added += result.added;
+      record.updated += result.updated;
+      record.removed += result.removed;
+      record.rejected += result.rejected;
+    });
+
+    // Nothing could be synced: fail the sync with the first source error
+    if (firstError && record.sources.every(result => result.error)) {
+      throw firstError;
+    }
+
+    // Link reviews to the stays they describe
+    if (isReservationSyncEnabled(config, sources.map(source => source.id))) {
+      record.reservations = await applyReservations(snapshot, config);
+    }
+
+    // Drop reviews kept longer than their source's terms allow
+    Object.entries(snapshot.reviews).forEach(([id, stored]) => {
+      if (isCacheExpired(stored)) delete snapshot.reviews[id];
+    });
+
+    record.finishedAt = new Date().toISOString();
+    snapshot.lastSync = record;
+    snapshot.lastSuccessfulSync = record;
+    if (full && !firstError) snapshot.lastFullSyncAt = startedAt;
+    await writeReviewStore(snapshot);
+    return record;
+
+  } catch (error) {
+    // Record the failure so callers can back off until the next interval
+    record.finishedAt = new Date().toISOString();
+    record.error = error instanceof Error ? error.message : String(error);
+    snapshot.lastSync = record;
+    await writeReviewStore(snapshot).catch(writeError => {
+      console.error('Error recording failed sync:', writeError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sync reviews from every enabled source into the review store
+ * Throws if no source could be read; the failure is also recorded in the
+ * store's `lastSync`. Failures of individual sources are reported in the
+ * returned record's `sources`.
+ */
+export function syncReviews(options: SyncOptions = {}): Promise<SyncRecord> {
+  const full = options.full === true;
+
+  if (!inFlightSync) {
+    const promise = runSync(options).finally(() => {
+      inFlightSync = null;
+    });
+    inFlightSync = { full, promise };
+    return promise;
+  }
+
+  // An incremental sync would not give a full sync's result, so wait for
+  // it and run the full sync afterwards; later callers share that one
+  if (full && !inFlightSync.full) {
+    if (!queuedFullSync) {
+      queuedFullSync = inFlightSync.promise
+        .catch(() => undefined)
+        .then(() => {
+          queuedFullSync = null;
+          return syncReviews({ full: true });
+        });
+    }
+    return queuedFullSync;
+  }
+
+  return inFlightSync.promise;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { filterReviews } from '@/lib/review-utils';
+import type { NormalizedReview } from '@/types/review';
+import { createPropertyInfo, createReview } from '@/test/fixtures';
+
+function review(id: string, submittedAt: string, timezone?: string): NormalizedReview {
+  return createReview({
+    id,
+    propertyId: id,
+    property: createPropertyInfo(id, { timezone }),
+    submittedAt,
+  });
+}
+
+const ids = (reviews: NormalizedReview[]) => reviews.map(r => r.id);
+
+describe('filterReviews', () => {
+  // 00:30 on 1 July in London, still 30 June in UTC
+  const londonMidnight = review('london', '2024-06-30T23:30:00.000Z', 'Europe/London');
+  // 23:30 on 30 June in New York, already 1 July in UTC
+  const newYorkEvening = review('new-york', '2024-07-01T03:30:00.000Z', 'America/New_York');
+  const unlisted = review('unlisted', '2024-07-01T00:30:00.000Z');
+
+  const reviews = [londonMidnight, newYorkEvening, unlisted];
+
+  it('reads date-only bounds as days in each listing\'s timezone', () => {
+    expect(ids(filterReviews(reviews, { dateFrom: '2024-07-01' }))).toEqual(['london', 'unlisted']);
+    expect(ids(filterReviews(reviews, { dateTo: '2024-06-30' }))).toEqual(['new-york']);
+  });
+
+  it('includes the whole of the last day', () => {
+    expect(ids(filterReviews(reviews, { dateFrom: '2024-07-01', dateTo: '2024-07-01' })))
+      .toEqual(['london', 'unlisted']);
+  });
+
+  it('treats timestamps as instants', () => {
+    expect(ids(filterReviews(reviews, { dateFrom: '2024-07-01T00:00:00Z' })))
+      .toEqual(['new-york', 'unlisted']);
+  });
+});
@@ -8,12 +8,33 @@
 import type {
   HostawayReview,
   HostawayApiResponse,
+  GoogleReviewRecord,
   NormalizedReview,
   NormalizedCategory,
   PropertyInfo,
   NormalizedReviewsResponse,
   PropertyPerformance,
+  ReviewFilters,
+  ReviewSort,
+  CategoryFilter,
+  CategorySummary,
 } from '@/types/review';
+import type { Property } from '@/types/property';
+import { getChannel } from '@/lib/channels';
+import { getDayBounds, toUtcISOString } from '@/lib/dates';
+import { getStaySeason } from '@/lib/stays';
+import { calculateRating, DEFAULT_RATING_SETTINGS } from '@/lib/rating';
+import { calculateRatingTrend } from '@/lib/analytics';
+import { getReviewIssueKeys } from '@/lib/issues';
+import type { RatingSettings } from '@/types/rating';
+
+// ============================================================================
+// Rating Scales
+// ============================================================================
+
+// Common scales every channel's scores are converted to
+const OVERALL_RATING_SCALE = 5;
+const CATEGORY_RATING_SCALE = 10;
 
 // ============================================================================
 // Category Display Name Mapping
@@ -30,19 +51,6 @@ const CATEGORY_DISPLAY_NAMES: Record<string, string> = {
   amenities: 'Amenities',
 };
 
-// ============================================================================
-// Channel Display Name Mapping
-// ============================================================================
-
-const CHANNEL_DISPLAY_NAMES: Record<string, string> = {
-  airbnb: 'Airbnb',
-  'booking.com': 'Booking.com',
-  vrbo: 'VRBO',
-  direct: 'Direct Booking',
-  expedia: 'Expedia',
-  homeaway: 'HomeAway',
-};
-
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -70,51 +78,40 @@ function getShortPropertyName(fullName: string): string {
 }
 
 /**
- * Extract location from listing name if present
+ * Property details for a review: the catalog entry when the listing is in
+ * the catalog, otherwise what can be derived from the listing name
  */
-function extractLocation(listingName: string): string | undefined {
-  // Try to extract location from patterns like "2B Shoreditch Heights"
-  const locationPatterns = [
-    /\b(Shoreditch|Marais|Gothic Quarter|Kreuzberg|Berlin|Paris|Barcelona|London)\b/i,
-  ];
-  
-  for (const pattern of locationPatterns) {
-    const match = listingName.match(pattern);
-    if (match) return match[1];
-  }
-  return undefined;
-}
-
-/**
- * Format date string to human-readable format
- */
-function formatDate(dateStr: string): string {
-  try {
-    const date = new Date(dateStr.replace(' ', 'T'));
-    return date.toLocaleDateString('en-GB', {
-      day: 'numeric',
-      month: 'short',
-      year: 'numeric',
-    });
-  } catch {
-    return dateStr;
+function getPropertyInfo(
+  id: string,
+  listingName: string,
+  property: Property | undefined,
+  timezone: string
+): PropertyInfo {
+  if (property) {
+    return {
+      id,
+      name: property.name,
+      shortName: property.shortName,
+      location: property.location,
+      city: property.city,
+      timezone,
+    };
   }
+  return { id, name: listingName, shortName: getShortPropertyName(listingName), timezone };
 }
 
 /**
- * Parse Hostaway date to ISO string
+ * Convert a score between rating scales, rounded to one decimal
+ * Scores outside the source scale are clamped to it
  */
-function parseToISOString(dateStr: string): string {
-  try {
-    const date = new Date(dateStr.replace(' ', 'T'));
-    return date.toISOString();
-  } catch {
-    return new Date().toISOString();
-  }
+function convertRating(value: number, fromScale: number, toScale: number): number {
+  const clamped = Math.min(Math.max(value, 0), fromScale);
+  return Math.round(clamped / fromScale * toScale * 10) / 10;
 }
 
 /**
  * Calculate overall rating from category ratings if main rating is null
+ * Both inputs must already be on the common scales
  */
 function calculateOverallRating(
   rating: number | null, 
@@ -124,8 +121,7 @@ function calculateOverallRating(
   if (categories.length === 0) return 0;
   
   const sum = categories.reduce((acc, cat) => acc + cat.rating, 0);
-  // Categories are out of 10, convert to 5-star scale
-  return Math.round((sum / categories.length) / 2 * 10) / 10;
+  return convertRating(sum / categories.length, CATEGORY_RATING_SCALE, OVERALL_RATING_SCALE);
 }
 
 // ============================================================================
@@ -134,53 +130,110 @@ function calculateOverallRating(
 
 /**
  * Normalize a single Hostaway review into frontend-friendly format
+ * `property` is the listing's catalog entry. `timeZone` is the listing's
+ * timezone, used to read Hostaway's offset-less `submittedAt` as true UTC.
  */
 export function normalizeReview(
   review: HostawayReview, 
-  approvedIds: Set<string> = new Set()
+  approvedIds: Set<string> = new Set(),
+  property?: Property,
+  timeZone = property?.timezone ?? 'UTC'
 ): NormalizedReview {
+  const submittedAt = toUtcISOString(review.submittedAt, timeZone);
+  if (!submittedAt) {
+    throw new Error(`Invalid submittedAt "${review.submittedAt}"`);
+  }
+
   const propertyId = review.listingId?.toString() || 
     review.listingName.replace(/\s+/g, '-').toLowerCase();
 
-  // Normalize categories
+  const channel = getChannel(review.channelName);
+  const scale = channel.ratingScale;
+  const categoryScale = scale.category ?? CATEGORY_RATING_SCALE;
+
+  // Normalize categories, preferring the channel's own category names
   const categories: NormalizedCategory[] = review.reviewCategory.map(cat => ({
     name: cat.category,
-    displayName: CATEGORY_DISPLAY_NAMES[cat.category] || 
+    displayName: channel.categories[cat.category] || CATEGORY_DISPLAY_NAMES[cat.category] || 
       cat.category.charAt(0).toUpperCase() + cat.category.slice(1).replace(/_/g, ' '),
-    rating: cat.rating,
-    maxRating: 10,
+    rating: convertRating(cat.rating, categoryScale, CATEGORY_RATING_SCALE),
+    maxRating: CATEGORY_RATING_SCALE,
+    rawRating: cat.rating,
+    rawMaxRating: categoryScale,
   }));
 
-  // Calculate overall rating
-  const overallRating = calculateOverallRating(review.rating, review.reviewCategory);
+  // Convert the channel's overall score, or derive one from the categories
+  const overallRating = calculateOverallRating(
+    review.rating === null ? null : convertRating(review.rating, scale.overall, OVERALL_RATING_SCALE),
+    categories
+  );
 
   return {
     id: review.id.toString(),
     propertyId,
-    property: {
-      id: propertyId,
-      name: review.listingName,
-      shortName: getShortPropertyName(review.listingName),
-      location: extractLocation(review.listingName),
-    },
+    property: getPropertyInfo(propertyId, review.listingName, property, timeZone),
     reviewer: review.guestName,
     reviewerInitials: getInitials(review.guestName),
     content: review.publicReview,
     privateNotes: review.privateReview,
     overallRating,
-    maxRating: 5,
+    maxRating: OVERALL_RATING_SCALE,
+    rawRating: { value: review.rating, scale: scale.overall },
     categories,
     type: review.type === 'guest-to-host' ? 'guest' : 'host',
     status: review.status,
-    channel: review.channelName || 'direct',
-    channelDisplayName: CHANNEL_DISPLAY_NAMES[review.channelName || 'direct'] || 
-      (review.channelName || 'Direct Booking'),
-    submittedAt: parseToISOString(review.submittedAt),
-    submittedAtFormatted: formatDate(review.submittedAt),
+    channel: channel.key,
+    channelDisplayName: channel.displayName,
+    submittedAt,
+    reservationId: review.reservationId != null ? review.reservationId.toString() : undefined,
     isApprovedForDisplay: approvedIds.has(review.id.toString()),
   };
 }
 
+/**
+ * Google reviews carry no ID, so one is derived from the place and review time
+ */
+export function getGoogleReviewId(record: GoogleReviewRecord): string {
+  return `google-${record.place.placeId}-${record.review.time}`;
+}
+
+/**
+ * Normalize a Google review into the same format as Hostaway reviews
+ * Google reviews are public guest reviews on a 5-star scale without
+ * category ratings. Their time is a Unix timestamp, so `timeZone` (the
+ * listing's) only sets the property's calendar days.
+ */
+export function normalizeGoogleReview(
+  record: GoogleReviewRecord,
+  approvedIds: Set<string> = new Set(),
+  property?: Property,
+  timeZone = property?.timezone ?? 'UTC'
+): NormalizedReview {
+  const { place, review } = record;
+  const id = getGoogleReviewId(record);
+  const channel = getChannel('google');
+  const submittedAt = new Date(review.time * 1000).toISOString();
+
+  return {
+    id,
+    propertyId: place.propertyId,
+    property: getPropertyInfo(place.propertyId, place.listingName, property, timeZone),
+    reviewer: review.author_name,
+    reviewerInitials: getInitials(review.author_name),
+    content: review.text,
+    overallRating: convertRating(review.rating, channel.ratingScale.overall, OVERALL_RATING_SCALE),
+    maxRating: OVERALL_RATING_SCALE,
+    rawRating: { value: review.rating, scale: channel.ratingScale.overall },
+    categories: [],
+    type: 'guest',
+    status: 'published',
+    channel: channel.key,
+    channelDisplayName: channel.displayName,
+    submittedAt,
+    isApprovedForDisplay: approvedIds.has(id),
+  };
+}
+
 /**
  * Normalize an entire Hostaway API response
  */
@@ -196,23 +249,28 @@ export function normalizeHostawayResponse(
         total: 0,
         properties: [],
         channels: [],
+        categories: [],
         dateRange: { earliest: '', latest: '' },
       },
       error: response.message || 'Failed to fetch reviews',
     };
   }
 
-  // Filter to only guest-to-host reviews for public display purposes
-  // But keep all for the dashboard
-  const allReviews = response.result;
-  
   // Normalize all reviews
-  const normalizedReviews = allReviews.map(review => 
+  const normalizedReviews = response.result.map(review => 
     normalizeReview(review, approvedIds)
   );
 
+  return buildReviewsResponse(normalizedReviews);
+}
+
+/**
+ * Build a successful response from normalized reviews:
+ * sorts newest first and derives properties, channels, categories and date range
+ */
+export function buildReviewsResponse(reviews: NormalizedReview[]): NormalizedReviewsResponse {
   // Sort by date (most recent first)
-  normalizedReviews.sort((a, b) => 
+  const normalizedReviews = [...reviews].sort((a, b) => 
     new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
   );
 
@@ -227,6 +285,16 @@ export function normalizeHostawayResponse(
   // Extract unique channels
   const channels = Array.from(new Set(normalizedReviews.map(r => r.channel)));
 
+  // Extract unique categories
+  const categoryMap = new Map<string, CategorySummary>();
+  normalizedReviews.forEach(review => {
+    review.categories.forEach(cat => {
+      if (!categoryMap.has(cat.name)) {
+        categoryMap.set(cat.name, { name: cat.name, displayName: cat.displayName });
+      }
+    });
+  });
+
   // Calculate date range
   const dates = normalizedReviews.map(r => new Date(r.submittedAt).getTime());
   const earliest = dates.length ? new Date(Math.min(...dates)).toISOString() : '';
@@ -239,27 +307,37 @@ export function normalizeHostawayResponse(
       total: normalizedReviews.length,
       properties: Array.from(propertyMap.values()),
       channels,
+      categories: Array.from(categoryMap.values()),
       dateRange: { earliest, latest },
     },
   };
 }
 
+// Reviews within this many days of a property's newest review set its recent trend
+const RECENT_TREND_DAYS = 365;
+
 /**
  * Calculate performance metrics for a specific property
+ * `portfolio` (every property's reviews) sets the prior of the property's
+ * rating; it defaults to `reviews`.
  */
 export function calculatePropertyPerformance(
   reviews: NormalizedReview[],
-  property: PropertyInfo
+  property: PropertyInfo,
+  ratingSettings: RatingSettings = DEFAULT_RATING_SETTINGS,
+  portfolio: NormalizedReview[] = reviews
 ): PropertyPerformance {
   const propertyReviews = reviews.filter(
     r => r.propertyId === property.id && r.type === 'guest'
   );
+  const rating = calculateRating(propertyReviews, portfolio, ratingSettings);
 
   if (propertyReviews.length === 0) {
     return {
       property,
       totalReviews: 0,
       averageRating: 0,
+      rating,
       ratingDistribution: {},
       categoryAverages: {},
       approvedCount: 0,
@@ -309,23 +387,14 @@ export function calculatePropertyPerformance(
     channelBreakdown[r.channel] = (channelBreakdown[r.channel] || 0) + 1;
   });
 
-  // Recent trend (compare last 5 reviews to previous 5)
-  const sorted = [...propertyReviews].sort(
-    (a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
-  );
-  let recentTrend: 'up' | 'down' | 'stable' = 'stable';
-  
-  if (sorted.length >= 4) {
-    const recentAvg = sorted.slice(0, 2).reduce((s, r) => s + r.overallRating, 0) / 2;
-    const olderAvg = sorted.slice(2, 4).reduce((s, r) => s + r.overallRating, 0) / 2;
-    if (recentAvg > olderAvg + 0.3) recentTrend = 'up';
-    else if (recentAvg < olderAvg - 0.3) recentTrend = 'down';
-  }
+  // Recent trend (significant rating slope over the year to the newest review)
+  const recentTrend = calculateRatingTrend(propertyReviews, RECENT_TREND_DAYS).direction;
 
   return {
     property,
     totalReviews: propertyReviews.length,
     averageRating,
+    rating,
     ratingDistribution,
     categoryAverages,
     approvedCount,
@@ -335,26 +404,140 @@ export function calculatePropertyPerformance(
   };
 }
 
+/**
+ * Resolve a filter date bound to a timestamp in a listing's timezone
+ * Date-only values cover the whole day in `timeZone`, so `dateTo` is
+ * inclusive; other values are instants and ignore it.
+ */
+function getDateBound(dateStr: string, bound: 'start' | 'end', timeZone: string): number {
+  const day = getDayBounds(dateStr, timeZone);
+  if (day) return bound === 'start' ? day.start : day.end;
+  return new Date(dateStr).getTime();
+}
+
+/**
+ * Get a review's rating for a category, if it was rated
+ */
+function getCategoryRating(review: NormalizedReview, category: string): number | undefined {
+  return review.categories.find(cat => cat.name === category)?.rating;
+}
+
+/**
+ * Check a review against a category threshold
+ * Reviews without a rating for the category never match
+ */
+function matchesCategoryFilter(review: NormalizedReview, filter: CategoryFilter): boolean {
+  const rating = getCategoryRating(review, filter.category);
+  if (rating === undefined) return false;
+  if (filter.min !== undefined && rating < filter.min) return false;
+  if (filter.max !== undefined && rating > filter.max) return false;
+  return true;
+}
+
+/**
+ * Check a review's stay against the length and season filters
+ * Reviews without a linked reservation never match
+ */
+function matchesStayFilters(review: NormalizedReview, filters: ReviewFilters): boolean {
+  const reservation = review.reservation;
+  if (!reservation) return false;
+  if (filters.minNights !== undefined && reservation.nights < filters.minNights) return false;
+  if (filters.maxNights !== undefined && reservation.nights > filters.maxNights) return false;
+  if (filters.season && getStaySeason(reservation.checkIn) !== filters.season) return false;
+  return true;
+}
+
 /**
  * Filter reviews based on provided criteria
+ * Date-only `dateFrom`/`dateTo` are days in each review's listing timezone.
  */
 export function filterReviews(
   reviews: NormalizedReview[],
-  filters: {
-    propertyId?: string;
-    channel?: string;
-    minRating?: number;
-    type?: 'guest' | 'host' | 'all';
-    approvedOnly?: boolean;
-  }
+  filters: ReviewFilters
 ): NormalizedReview[] {
+  // Date bounds per timezone, resolved once for each listing timezone seen
+  const boundsByTimeZone = new Map<string, { from?: number; to?: number }>();
+  const getBounds = (timeZone: string) => {
+    let bounds = boundsByTimeZone.get(timeZone);
+    if (!bounds) {
+      bounds = {
+        from: filters.dateFrom ? getDateBound(filters.dateFrom, 'start', timeZone) : undefined,
+        to: filters.dateTo ? getDateBound(filters.dateTo, 'end', timeZone) : undefined,
+      };
+      boundsByTimeZone.set(timeZone, bounds);
+    }
+    return bounds;
+  };
+  const hasStayFilters = filters.minNights !== undefined || filters.maxNights !== undefined ||
+    filters.season !== undefined;
+
   return reviews.filter(review => {
     if (filters.propertyId && review.propertyId !== filters.propertyId) return false;
     if (filters.channel && review.channel !== filters.channel) return false;
-    if (filters.minRating && review.overallRating < filters.minRating) return false;
+    if (filters.minRating !== undefined && review.overallRating < filters.minRating) return false;
+    if (filters.maxRating !== undefined && review.overallRating > filters.maxRating) return false;
     if (filters.type && filters.type !== 'all' && review.type !== filters.type) return false;
+    if (filters.status && filters.status !== 'all' && review.status !== filters.status) return false;
     if (filters.approvedOnly && !review.isApprovedForDisplay) return false;
+
+    if (filters.categories?.some(filter => !matchesCategoryFilter(review, filter))) {
+      return false;
+    }
+
+    if (hasStayFilters && !matchesStayFilters(review, filters)) return false;
+
+    if (filters.issue && !(review.issues ?? getReviewIssueKeys(review)).includes(filters.issue)) {
+      return false;
+    }
+
+    if (filters.dateFrom || filters.dateTo) {
+      const { from, to } = getBounds(review.property.timezone ?? 'UTC');
+      const submitted = new Date(review.submittedAt).getTime();
+      if (from !== undefined && submitted < from) return false;
+      if (to !== undefined && submitted > to) return false;
+    }
+
     return true;
   });
 }
 
+/**
+ * Sort reviews by the given field and order (returns a new array)
+ * When sorting by category, reviews without that category always come last.
+ * Ties are broken newest first, then by id, so the order is total and
+ * pages never repeat or skip reviews.
+ */
+export function sortReviews(
+  reviews: NormalizedReview[],
+  sort: ReviewSort
+): NormalizedReview[] {
+  const direction = sort.order === 'desc' ? -1 : 1;
+  const time = (review: NormalizedReview) => new Date(review.submittedAt).getTime();
+
+  const compareField = (a: NormalizedReview, b: NormalizedReview): number => {
+    switch (sort.field) {
+      case 'date':
+        return (time(a) - time(b)) * direction;
+      case 'rating':
+        return (a.overallRating - b.overallRating) * direction;
+      case 'property':
+        return a.property.name.localeCompare(b.property.name) * direction;
+      case 'channel':
+        return a.channel.localeCompare(b.channel) * direction;
+      case 'category': {
+        const ratingA = sort.category ? getCategoryRating(a, sort.category) : undefined;
+        const ratingB = sort.category ? getCategoryRating(b, sort.category) : undefined;
+        if (ratingA === undefined || ratingB === undefined) {
+          return (ratingA === undefined ? 1 : 0) - (ratingB === undefined ? 1 : 0);
+        }
+        return (ratingA - ratingB) * direction;
+      }
+    }
+  };
+
+  return [...reviews].sort((a, b) =>
+    compareField(a, b) ||
+    time(b) - time(a) ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { PropertyCatalog } from '@/lib/property-catalog';
+import { googleSource } from '@/lib/sources/google-source';
+import type { Property } from '@/types/property';
+import type { GooglePlaceDetailsResponse, GoogleReviewRecord } from '@/types/review';
+
+// Recorded Places API responses and the hand-kept catalog they belong to
+import recordedPlaceDetails from '@/data/google-place-details.json';
+import catalogData from '@/data/properties.json';
+
+const recorded = recordedPlaceDetails as Record<string, GooglePlaceDetailsResponse>;
+const properties = catalogData as Property[];
+const catalog = new PropertyCatalog(properties);
+
+const shoreditch = properties.find(property => property.id === '1001')!;
+const place = {
+  propertyId: shoreditch.id,
+  listingName: shoreditch.name,
+  placeId: shoreditch.googlePlaceId!,
+};
+
+/**
+ * Records for every review in a recorded response
+ */
+function recordedRecords(placeId: string): GoogleReviewRecord[] {
+  return recorded[placeId].result!.reviews!.map(review => ({ place, review }));
+}
+
+describe('googleSource', () => {
+  const [record] = recordedRecords(place.placeId);
+
+  it('accepts every recorded review', () => {
+    Object.entries(recorded).forEach(([placeId, response]) => {
+      response.result?.reviews?.forEach(review => {
+        expect(googleSource.validate({ place: { ...place, placeId }, review })).toEqual([]);
+      });
+    });
+  });
+
+  it('maps author, rating, text and time into a normalized review', () => {
+    const review = googleSource.normalize(record, catalog);
+
+    expect(review).toEqual({
+      id: `google-${place.placeId}-1731958920`,
+      propertyId: '1001',
+      property: {
+        id: '1001',
+        name: shoreditch.name,
+        shortName: shoreditch.shortName,
+        location: shoreditch.location,
+        city: shoreditch.city,
+        timezone: 'Europe/London',
+      },
+      reviewer: 'Oliver Grant',
+      reviewerInitials: 'OG',
+      content: record.review.text,
+      overallRating: 5,
+      maxRating: 5,
+      rawRating: { value: 5, scale: 5 },
+      categories: [],
+      type: 'guest',
+      status: 'published',
+      channel: 'google',
+      channelDisplayName: 'Google',
+      submittedAt: '2024-11-18T19:42:00.000Z',
+      isApprovedForDisplay: false,
+    });
+  });
+
+  it('identifies reviews by place and time, matching the normalized ID', () => {
+    recordedRecords(place.placeId).forEach(r => {
+      expect(googleSource.identify(r)).toBe(googleSource.normalize(r, catalog).id);
+    });
+  });
+
+  it('derives property details from the listing name outside the catalog', () => {
+    const unlisted = { ...record, place: { ...place, propertyId: '9999', listingName: 'Canal View - 2BR' } };
+
+    expect(googleSource.normalize(unlisted, catalog).property).toEqual({
+      id: '9999',
+      name: 'Canal View - 2BR',
+      shortName: 'Canal View',
+      timezone: 'UTC',
+    });
+  });
+
+  it('normalizes reviews without the optional fields', () => {
+    const minimal: GoogleReviewRecord = {
+      place,
+      review: { author_name: 'Sam', rating: 2, text: '', time: 1700000000 },
+    };
+
+    expect(googleSource.validate(minimal)).toEqual([]);
+    expect(googleSource.normalize(minimal, catalog)).toMatchObject({
+      reviewer: 'Sam',
+      reviewerInitials: 'SA',
+      content: '',
+      overallRating: 2,
+      submittedAt: '2023-11-14T22:13:20.000Z',
+    });
+  });
+
+  it('reports missing and malformed fields', () => {
+    expect(googleSource.validate({
+      place: { placeId: '', propertyId: '1001' },
+      review: { rating: 6, time: '1700000000' },
+    })).toEqual([
+      'place.placeId must be a non-empty string',
+      'place.listingName must be a non-empty string',
+      'author_name must be a non-empty string (got missing)',
+      'rating must be a whole number from 1 to 5 (got number 6)',
+      'text must be a string (got missing)',
+      'time must be a positive Unix timestamp in seconds (got "1700000000")',
+    ]);
+  });
+
+  it('rejects records without a place or review', () => {
+    expect(googleSource.validate(null)).toHaveLength(1);
+    expect(googleSource.validate({ review: record.review })).toEqual(['place link is missing']);
+    expect(googleSource.validate({ place })).toEqual(['review must be an object']);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Google Review Source
+ *
+ * Reads the Google reviews of every listing with a `googlePlaceId` in the
+ * property catalog:
+ * - live: Places API, enabled when GOOGLE_PLACES_API_KEY is set
+ * - mock: recorded Place Details responses in `src/data/google-place-details.json`
+ * - file: disabled (the reviews file only holds Hostaway data)
+ *
+ * Google returns at most 5 reviews per place, so reviews that drop out of
+ * that window are only ever flagged as removed by a full sync. Google's terms
+ * allow caching reviews for 24 hours, so a review that has not been fetched
+ * again within that window is deleted from the store.
+ */
+
+import { GooglePlacesClient, getPlaceReviews } from '@/lib/google-places-client';
+import { ConfigError, getConfig, type AppConfig } from '@/lib/config';
+import { getProperties } from '@/lib/property-catalog';
+import { normalizeGoogleReview, getGoogleReviewId } from '@/lib/review-utils';
+import { validateGoogleReviewRecord } from '@/lib/review-schema';
+import type { ReviewSource } from '@/lib/sources/types';
+import type {
+  GooglePlaceDetailsResponse,
+  GooglePlaceMapping,
+  GooglePlaceReview,
+  GoogleReviewRecord,
+} from '@/types/review';
+
+// Recorded Places API responses
+import recordedPlaceDetails from '@/data/google-place-details.json';
+
+let placesClient: GooglePlacesClient | null = null;
+
+/**
+ * Get the Places client for the configured API key
+ */
+function getPlacesClient(config: AppConfig): GooglePlacesClient {
+  if (!config.google) {
+    throw new ConfigError(['GOOGLE_PLACES_API_KEY is not configured']);
+  }
+  if (!placesClient) {
+    placesClient = new GooglePlacesClient(config.google);
+  }
+  return placesClient;
+}
+
+/**
+ * Reviews for one place from the recorded responses
+ */
+function getRecordedReviews(placeId: string): GooglePlaceReview[] {
+  const recorded = (recordedPlaceDetails as Record<string, GooglePlaceDetailsResponse>)[placeId];
+  if (!recorded) return [];
+  return getPlaceReviews(recorded, placeId);
+}
+
+export const googleSource: ReviewSource<GoogleReviewRecord> = {
+  id: 'google',
+  displayName: 'Google',
+  maxCacheAgeSeconds: 24 * 60 * 60,
+
+  isEnabled: config =>
+    config.dataSource === 'mock' || (config.dataSource === 'live' && config.google !== null),
+
+  async fetch(config) {
+    const records: GoogleReviewRecord[] = [];
+    const places: GooglePlaceMapping[] = (await getProperties())
+      .filter(property => property.googlePlaceId)
+      .map(property => ({
+        propertyId: property.id,
+        listingName: property.name,
+        placeId: property.googlePlaceId!,
+      }));
+
+    // One Place Details request per listing, sequentially to stay well
+    // inside the Places API rate limits
+    for (const place of places) {
+      const reviews = config.dataSource === 'live'
+        ? await getPlacesClient(config).fetchPlaceReviews(place.placeId)
+        : getRecordedReviews(place.placeId);
+      reviews.forEach(review => records.push({ place, review }));
+    }
+
+    return records;
+  },
+
+  validate: validateGoogleReviewRecord,
+
+  identify: record => getGoogleReviewId(record),
+
+  normalize: (record, catalog) => {
+    const property = catalog.get(record.place.propertyId);
+    const timeZone = property?.timezone ?? getConfig().hostawayTimeZone;
+    return normalizeGoogleReview(record, undefined, property, timeZone);
+  },
+};
@@ -0,0 +1,80 @@
+/**
+ * Hostaway Review Source
+ *
+ * Reads Hostaway-shaped reviews from the configured data source:
+ * - live: Hostaway API (failures are raised as HostawayApiError)
+ * - mock: bundled sample data
+ * - file: a JSON file in the Hostaway response shape
+ *
+ * Hostaway timestamps carry no offset; they are read in the listing's
+ * timezone from the property catalog, else HOSTAWAY_TIMEZONE.
+ */
+
+import { promises as fs } from 'fs';
+import { HostawayClient } from '@/lib/hostaway-client';
+import { ConfigError, getConfig, type AppConfig } from '@/lib/config';
+import { normalizeReview } from '@/lib/review-utils';
+import { validateHostawayReview } from '@/lib/review-schema';
+import type { ReviewSource } from '@/lib/sources/types';
+import type { HostawayApiResponse, HostawayReview } from '@/types/review';
+
+// Import mock data
+import mockReviews from '@/data/mock-reviews.json';
+
+// Shared across syncs so the access token is reused until it expires
+let hostawayClient: HostawayClient | null = null;
+
+/**
+ * Get the Hostaway client for the configured account
+ * Also used by the listing sync, so both share one access token
+ */
+export function getHostawayClient(config: AppConfig): HostawayClient {
+  if (!config.hostaway) {
+    throw new ConfigError(['Hostaway credentials are not configured']);
+  }
+  if (!hostawayClient) {
+    hostawayClient = new HostawayClient(config.hostaway);
+  }
+  return hostawayClient;
+}
+
+/**
+ * Unwrap a Hostaway-shaped response, rejecting error responses
+ */
+function getResults(response: HostawayApiResponse, origin: string): HostawayReview[] {
+  if (response.status !== 'success' || !Array.isArray(response.result)) {
+    throw new Error(response.message || `${origin} did not contain a successful reviews response`);
+  }
+  return response.result;
+}
+
+export const hostawaySource: ReviewSource<HostawayReview> = {
+  id: 'hostaway',
+  displayName: 'Hostaway',
+
+  isEnabled: () => true,
+
+  async fetch(config) {
+    switch (config.dataSource) {
+      case 'live':
+        return getHostawayClient(config).fetchReviews();
+      case 'file': {
+        const contents = await fs.readFile(config.reviewsDataFile!, 'utf-8');
+        return getResults(JSON.parse(contents), config.reviewsDataFile!);
+      }
+      case 'mock':
+      default:
+        return getResults(mockReviews as HostawayApiResponse, 'Mock data');
+    }
+  },
+
+  validate: validateHostawayReview,
+
+  identify: review => review.id.toString(),
+
+  normalize: (review, catalog) => {
+    const property = catalog.get(review.listingId);
+    const timeZone = property?.timezone ?? getConfig().hostawayTimeZone;
+    return normalizeReview(review, undefined, property, timeZone);
+  },
+};
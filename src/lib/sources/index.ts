@@ -0,0 +1,68 @@
+/**
+ * Review Source Registry
+ *
+ * Holds every platform reviews can be synced from. Built-in sources are
+ * registered here; others (e.g. a CSV import or a direct-booking form) can
+ * be added with `registerReviewSource()` without touching the sync job or
+ * the API routes.
+ *
+ * Which registered sources are synced is decided by each source's
+ * `isEnabled()` and, if set, the REVIEW_SOURCES allow-list.
+ */
+
+import { ConfigError, type AppConfig } from '@/lib/config';
+import { hostawaySource } from '@/lib/sources/hostaway-source';
+import { googleSource } from '@/lib/sources/google-source';
+import type { ReviewSource } from '@/lib/sources/types';
+
+export type { ReviewSource } from '@/lib/sources/types';
+
+const registry = new Map<string, ReviewSource>();
+
+/**
+ * Register a review source; IDs must be unique
+ */
+export function registerReviewSource<TRaw>(source: ReviewSource<TRaw>): void {
+  if (registry.has(source.id)) {
+    throw new Error(`Review source "${source.id}" is already registered`);
+  }
+  registry.set(source.id, source as ReviewSource);
+}
+
+/**
+ * Look up a registered source by ID
+ */
+export function getReviewSource(id: string): ReviewSource | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Every registered source, in registration order
+ */
+export function getRegisteredReviewSources(): ReviewSource[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Sources to sync with this configuration
+ * Throws ConfigError if REVIEW_SOURCES names a source that is not registered
+ */
+export function getEnabledReviewSources(config: AppConfig): ReviewSource[] {
+  if (config.enabledSources) {
+    const unknown = config.enabledSources.filter(id => !registry.has(id));
+    if (unknown.length > 0) {
+      throw new ConfigError(unknown.map(id =>
+        `REVIEW_SOURCES lists unknown source "${id}" (registered: ${Array.from(registry.keys()).join(', ')})`
+      ));
+    }
+  }
+
+  return getRegisteredReviewSources().filter(source =>
+    (!config.enabledSources || config.enabledSources.includes(source.id)) &&
+    source.isEnabled(config)
+  );
+}
+
+// Built-in sources
+registerReviewSource(hostawaySource);
+registerReviewSource(googleSource);
@@ -0,0 +1,42 @@
+/**
+ * Review Source Interface
+ *
+ * A review source knows how to fetch raw reviews from one platform, identify
+ * them and normalize them into `NormalizedReview`. Sources are registered in
+ * `src/lib/sources/index.ts`; the sync job fans out to every enabled source,
+ * so adding a platform never means changing the sync job or API routes.
+ */
+
+import type { AppConfig } from '@/lib/config';
+import type { PropertyCatalog } from '@/lib/property-catalog';
+import type { NormalizedReview } from '@/types/review';
+
+export interface ReviewSource<TRaw = unknown> {
+  /** Stable identifier, stored with every review from this source */
+  id: string;
+  displayName: string;
+  /**
+   * Longest a review may be kept after it was last fetched, in seconds, when
+   * the platform's terms limit caching; unset keeps reviews indefinitely
+   */
+  maxCacheAgeSeconds?: number;
+  /** Whether the source should be synced with this configuration */
+  isEnabled(config: AppConfig): boolean;
+  /** Fetch every raw review currently available from the source */
+  fetch(config: AppConfig): Promise<TRaw[]>;
+  /**
+   * Check a raw review against the shape `identify`/`normalize` expect
+   * Returns the problems found; records with problems are quarantined
+   */
+  validate(raw: unknown): string[];
+  /**
+   * ID of a raw review, unique across all sources and equal to the `id`
+   * returned by `normalize` (prefix it with the source ID if needed)
+   */
+  identify(raw: TRaw): string;
+  /**
+   * Normalize one raw review
+   * Property details and the listing's timezone come from `catalog`
+   */
+  normalize(raw: TRaw, catalog: PropertyCatalog): NormalizedReview;
+}
@@ -0,0 +1,123 @@
+/**
+ * Stay Analysis
+ *
+ * Length-of-stay and season helpers for reviews linked to a reservation,
+ * used by the review filters and the dashboard's stay insights.
+ *
+ * Safe to import from client components.
+ */
+
+import type { NormalizedReview } from '@/types/review';
+import type { StayInsights, StayRatingGroup, StaySeason } from '@/types/reservation';
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+export interface StayLengthBucket {
+  key: string;
+  label: string;
+  minNights: number;
+  maxNights?: number;
+}
+
+export const STAY_LENGTH_BUCKETS: StayLengthBucket[] = [
+  { key: 'short', label: '1–2 nights', minNights: 1, maxNights: 2 },
+  { key: 'medium', label: '3–6 nights', minNights: 3, maxNights: 6 },
+  { key: 'long', label: '7+ nights', minNights: 7 },
+];
+
+export const STAY_SEASONS: StaySeason[] = ['spring', 'summer', 'autumn', 'winter'];
+
+export const SEASON_DISPLAY_NAMES: Record<StaySeason, string> = {
+  spring: 'Spring (Mar–May)',
+  summer: 'Summer (Jun–Aug)',
+  autumn: 'Autumn (Sep–Nov)',
+  winter: 'Winter (Dec–Feb)',
+};
+
+/**
+ * Season of a check-in date (`YYYY-MM-DD`)
+ * Meteorological seasons for the northern hemisphere, where every
+ * listing is
+ */
+export function getStaySeason(checkIn: string): StaySeason {
+  const month = Number(checkIn.slice(5, 7));
+  if (month >= 3 && month <= 5) return 'spring';
+  if (month >= 6 && month <= 8) return 'summer';
+  if (month >= 9 && month <= 11) return 'autumn';
+  return 'winter';
+}
+
+// ============================================================================
+// Insights
+// ============================================================================
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function summarize(key: string, label: string, reviews: NormalizedReview[]): StayRatingGroup {
+  return {
+    key,
+    label,
+    reviewCount: reviews.length,
+    averageRating: reviews.length > 0
+      ? round(reviews.reduce((sum, r) => sum + r.overallRating, 0) / reviews.length, 1)
+      : null,
+  };
+}
+
+/**
+ * Pearson correlation coefficient of two equally long series
+ */
+function correlation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return round(covariance / Math.sqrt(varianceX * varianceY), 2);
+}
+
+/**
+ * How guest ratings vary with length and season of stay
+ * Only guest reviews with a linked reservation are analysed.
+ */
+export function calculateStayInsights(reviews: NormalizedReview[]): StayInsights {
+  const linked = reviews.filter(r => r.type === 'guest' && r.reservation);
+
+  const byLength = STAY_LENGTH_BUCKETS.map(bucket =>
+    summarize(bucket.key, bucket.label, linked.filter(r =>
+      r.reservation!.nights >= bucket.minNights &&
+      (bucket.maxNights === undefined || r.reservation!.nights <= bucket.maxNights)
+    ))
+  );
+
+  const bySeason = STAY_SEASONS.map(season =>
+    summarize(season, SEASON_DISPLAY_NAMES[season], linked.filter(r =>
+      getStaySeason(r.reservation!.checkIn) === season
+    ))
+  );
+
+  return {
+    linkedReviews: linked.length,
+    byLength,
+    bySeason,
+    nightsRatingCorrelation: correlation(
+      linked.map(r => r.reservation!.nights),
+      linked.map(r => r.overallRating)
+    ),
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildPropertyJsonLd } from '@/lib/structured-data';
+import type { Property } from '@/types/property';
+import type { NormalizedReview } from '@/types/review';
+import { createReview } from '@/test/fixtures';
+
+// Hand-kept property catalog
+import properties from '@/data/properties.json';
+
+const property = properties[0] as Property;
+const SITE_URL = 'https://reviews.example.com';
+
+function review(id: string, channel: string, overallRating: number): NormalizedReview {
+  return createReview({ id, channel, channelDisplayName: channel, overallRating });
+}
+
+describe('buildPropertyJsonLd', () => {
+  it('marks up guest reviews with their aggregate rating', () => {
+    const jsonLd = buildPropertyJsonLd(property, [review('1', 'airbnb', 5), review('2', 'direct', 4)], SITE_URL);
+
+    expect(jsonLd.aggregateRating).toMatchObject({ ratingValue: 4.5, reviewCount: 2 });
+    expect(jsonLd.review).toHaveLength(2);
+  });
+
+  it('leaves Google reviews out of the reviews and the aggregate', () => {
+    const jsonLd = buildPropertyJsonLd(property, [review('1', 'airbnb', 5), review('2', 'google', 1)], SITE_URL);
+
+    expect(jsonLd.aggregateRating).toMatchObject({ ratingValue: 5, reviewCount: 1 });
+    expect(jsonLd.review).toEqual([expect.objectContaining({ reviewBody: 'Review 1' })]);
+  });
+
+  it('omits the rating when only Google reviews are shown', () => {
+    const jsonLd = buildPropertyJsonLd(property, [review('1', 'google', 4)], SITE_URL);
+
+    expect(jsonLd).not.toHaveProperty('aggregateRating');
+    expect(jsonLd).not.toHaveProperty('review');
+  });
+
+  it('marks up unrated reviews without a rating and leaves them out of the aggregate', () => {
+    const jsonLd = buildPropertyJsonLd(property, [review('1', 'airbnb', 4), review('2', 'direct', 0)], SITE_URL);
+
+    expect(jsonLd.aggregateRating).toMatchObject({ ratingValue: 4, reviewCount: 1 });
+    expect(jsonLd.review).toEqual([
+      expect.objectContaining({ reviewRating: expect.objectContaining({ ratingValue: 4 }) }),
+      expect.not.objectContaining({ reviewRating: expect.anything() }),
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Structured Data
+ *
+ * schema.org JSON-LD for the public property pages, so listings can earn
+ * review rich results. Each property is a `VacationRental` (a
+ * `LodgingBusiness` subtype) with an `AggregateRating` and a `Review` per
+ * review. Only pass manager-approved guest reviews: the markup must match
+ * what the page shows.
+ *
+ * Reviews from channels that may not be republished as markup (Google's
+ * terms only allow showing its reviews with attribution) are left out of
+ * both the reviews and the aggregate rating. Reviews without an overall
+ * score are marked up without a `reviewRating` and left out of the
+ * aggregate, since rich results reject a rating of 0.
+ */
+
+import { getChannel } from '@/lib/channels';
+import type { Property } from '@/types/property';
+import type { NormalizedReview } from '@/types/review';
+
+type JsonLd = Record<string, unknown>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Absolute URL for a site path or an external URL
+ */
+export function toAbsoluteUrl(pathOrUrl: string, siteUrl: string): string {
+  return new URL(pathOrUrl, `${siteUrl}/`).toString();
+}
+
+/**
+ * Canonical URL of a property's public page
+ */
+export function getPropertyUrl(property: Property, siteUrl: string): string {
+  return toAbsoluteUrl(`property/${encodeURIComponent(property.id)}`, siteUrl);
+}
+
+/**
+ * Whether a review has an overall score (unrated reviews are stored as 0)
+ */
+function isRated(review: NormalizedReview): boolean {
+  return review.overallRating > 0;
+}
+
+/**
+ * Mean overall rating (out of 5) rounded to 2 decimals, or null without reviews
+ */
+export function getAverageRating(reviews: NormalizedReview[]): number | null {
+  if (reviews.length === 0) return null;
+  const average = reviews.reduce((sum, review) => sum + review.overallRating, 0) / reviews.length;
+  return Math.round(average * 100) / 100;
+}
+
+/**
+ * Serialize JSON-LD for an inline `<script>` tag
+ * `<` is escaped so review text cannot close the tag.
+ */
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+function buildReview(review: NormalizedReview): JsonLd {
+  return {
+    '@type': 'Review',
+    author: { '@type': 'Person', name: review.reviewer },
+    datePublished: review.submittedAt.slice(0, 10),
+    reviewBody: review.content,
+    ...(isRated(review) && {
+      reviewRating: {
+        '@type': 'Rating',
+        ratingValue: review.overallRating,
+        bestRating: review.maxRating,
+        worstRating: 1,
+      },
+    }),
+    publisher: { '@type': 'Organization', name: review.channelDisplayName },
+  };
+}
+
+/**
+ * JSON-LD for a property page
+ * Reviews are left out when there are none that may be marked up, and
+ * `AggregateRating` when none of those are rated.
+ */
+export function buildPropertyJsonLd(
+  property: Property,
+  reviews: NormalizedReview[],
+  siteUrl: string
+): JsonLd {
+  const url = getPropertyUrl(property, siteUrl);
+  const markupReviews = reviews.filter(review => getChannel(review.channel).structuredData !== false);
+  const ratedReviews = markupReviews.filter(isRated);
+  const averageRating = getAverageRating(ratedReviews);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'VacationRental',
+    '@id': url,
+    identifier: property.id,
+    name: property.name,
+    description: property.description,
+    url,
+    image: property.images.map(image => toAbsoluteUrl(image, siteUrl)),
+    address: {
+      '@type': 'PostalAddress',
+      ...(property.address && { streetAddress: property.address }),
+      addressLocality: property.city,
+    },
+    containsPlace: {
+      '@type': 'Accommodation',
+      additionalType: 'EntirePlace',
+      occupancy: { '@type': 'QuantitativeValue', value: property.capacity.guests },
+      numberOfBedrooms: property.capacity.bedrooms,
+      numberOfBathroomsTotal: property.capacity.bathrooms,
+      amenityFeature: property.amenities.map(amenity => ({
+        '@type': 'LocationFeatureSpecification',
+        name: amenity,
+        value: true,
+      })),
+    },
+    ...(averageRating !== null && {
+      aggregateRating: {
+        '@type': 'AggregateRating',
+        ratingValue: averageRating,
+        reviewCount: ratedReviews.length,
+        bestRating: 5,
+        worstRating: 1,
+      },
+    }),
+    ...(markupReviews.length > 0 && {
+      review: markupReviews.map(buildReview),
+    }),
+  };
+}
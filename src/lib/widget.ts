@@ -0,0 +1,116 @@
+/**
+ * Reviews Widget
+ *
+ * Options and data for the embeddable reviews widget. External sites embed
+ * it as an iframe of `/embed/[id]` (usually through the `public/widget.js`
+ * loader) or read the same data as JSON from `/api/widget/[id]`.
+ *
+ * The widget shows the same approved guest reviews as the public property
+ * page, optionally limited by count and minimum rating.
+ *
+ * Query parameters:
+ * - theme: light or dark (default light)
+ * - maxReviews: 1-20 (default 3)
+ * - minRating: 0-5 (default 0)
+ */
+
+import { getConfig } from '@/lib/config';
+import { getProperty } from '@/lib/property-catalog';
+import { getApprovedPropertyReviews, getPropertyRating } from '@/lib/public-reviews';
+import { QueryValidationError } from '@/lib/review-query';
+import { getPropertyUrl } from '@/lib/structured-data';
+import type { WidgetData, WidgetOptions, WidgetTheme } from '@/types/widget';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export const WIDGET_THEMES: WidgetTheme[] = ['light', 'dark'];
+
+export const DEFAULT_WIDGET_OPTIONS: WidgetOptions = {
+  theme: 'light',
+  maxReviews: 3,
+  minRating: 0,
+};
+
+const MAX_WIDGET_REVIEWS = 20;
+
+/**
+ * Parse widget options from URL search params
+ * Throws QueryValidationError listing every invalid parameter.
+ */
+export function parseWidgetOptions(searchParams: URLSearchParams): WidgetOptions {
+  const issues: string[] = [];
+  const options = { ...DEFAULT_WIDGET_OPTIONS };
+
+  const theme = searchParams.get('theme');
+  if (theme) {
+    if (WIDGET_THEMES.includes(theme as WidgetTheme)) {
+      options.theme = theme as WidgetTheme;
+    } else {
+      issues.push(`theme must be one of ${WIDGET_THEMES.join(', ')}`);
+    }
+  }
+
+  const maxReviews = searchParams.get('maxReviews');
+  if (maxReviews) {
+    const value = Number(maxReviews);
+    if (Number.isInteger(value) && value >= 1 && value <= MAX_WIDGET_REVIEWS) {
+      options.maxReviews = value;
+    } else {
+      issues.push(`maxReviews must be a whole number between 1 and ${MAX_WIDGET_REVIEWS}`);
+    }
+  }
+
+  const minRating = searchParams.get('minRating');
+  if (minRating) {
+    const value = Number(minRating);
+    if (!Number.isNaN(value) && value >= 0 && value <= 5) {
+      options.minRating = value;
+    } else {
+      issues.push('minRating must be a number between 0 and 5');
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new QueryValidationError(issues);
+  }
+  return options;
+}
+
+// ============================================================================
+// Data
+// ============================================================================
+
+/**
+ * Widget data for a property, or null if it is not in the catalog
+ */
+export async function getWidgetData(
+  propertyId: string,
+  options: WidgetOptions
+): Promise<WidgetData | null> {
+  const property = await getProperty(propertyId);
+  if (!property) return null;
+
+  const [approved, rating] = await Promise.all([
+    getApprovedPropertyReviews(property.id),
+    getPropertyRating(property.id),
+  ]);
+
+  return {
+    property: {
+      id: property.id,
+      name: property.name,
+      city: property.city,
+      url: getPropertyUrl(property, getConfig().siteUrl),
+    },
+    rating: {
+      value: rating.value,
+      count: rating.reviewCount,
+    },
+    reviews: approved
+      .filter(review => review.overallRating >= options.minRating)
+      .slice(0, options.maxReviews),
+    options,
+  };
+}
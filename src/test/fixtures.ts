@@ -0,0 +1,71 @@
+/**
+ * Test Fixtures
+ *
+ * Complete, typed records for tests. Each builder fills in every required
+ * field with a plausible default, so tests only spell out the fields they
+ * are about and new required fields only need adding here.
+ */
+
+import type { ReservationInfo } from '@/types/reservation';
+import type { NormalizedReview, PropertyInfo } from '@/types/review';
+
+/**
+ * Listing a fixture review belongs to
+ */
+export function createPropertyInfo(id: string, overrides: Partial<PropertyInfo> = {}): PropertyInfo {
+  return {
+    id,
+    name: `Property ${id}`,
+    shortName: id,
+    timezone: 'UTC',
+    ...overrides,
+  };
+}
+
+/**
+ * A published 5-star Airbnb guest review, not approved for display
+ * `property` follows `propertyId` unless it is overridden too.
+ */
+export function createReview(overrides: Partial<NormalizedReview> = {}): NormalizedReview {
+  const id = overrides.id ?? '1';
+  const propertyId = overrides.propertyId ?? '1001';
+  const overallRating = overrides.overallRating ?? 5;
+
+  return {
+    id,
+    propertyId,
+    property: createPropertyInfo(propertyId),
+    reviewer: `Guest ${id}`,
+    reviewerInitials: 'G',
+    content: `Review ${id}`,
+    overallRating,
+    maxRating: 5,
+    rawRating: { value: overallRating, scale: 5 },
+    categories: [],
+    type: 'guest',
+    status: 'published',
+    channel: 'airbnb',
+    channelDisplayName: 'Airbnb',
+    submittedAt: '2024-11-15T14:30:00.000Z',
+    isApprovedForDisplay: false,
+    ...overrides,
+  };
+}
+
+/**
+ * A direct booking for two guests
+ */
+export function createReservation(overrides: Partial<ReservationInfo> = {}): ReservationInfo {
+  return {
+    id: '5001',
+    checkIn: '2024-07-01',
+    checkOut: '2024-07-04',
+    nights: 3,
+    guests: 2,
+    channel: 'direct',
+    channelDisplayName: 'Direct',
+    totalPrice: null,
+    currency: null,
+    ...overrides,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * In-memory Stores for Tests
+ *
+ * Review store and property catalog adapters that keep their snapshot in
+ * memory. `snapshot` is public so tests can arrange and inspect state
+ * directly; reads and writes copy it, as the file adapters do.
+ */
+
+import {
+  PROPERTY_CATALOG_VERSION,
+  type PropertyCatalogSnapshot,
+  type PropertyCatalogStoreAdapter,
+} from '@/lib/property-catalog';
+import {
+  REVIEW_STORE_VERSION,
+  type ReviewStoreAdapter,
+  type ReviewStoreSnapshot,
+} from '@/lib/review-store';
+
+/**
+ * An empty review store snapshot of the current version
+ */
+export function createReviewStoreSnapshot(
+  overrides: Partial<ReviewStoreSnapshot> = {}
+): ReviewStoreSnapshot {
+  return {
+    version: REVIEW_STORE_VERSION,
+    reviews: {},
+    watermarks: {},
+    quarantine: {},
+    reservations: {},
+    lastSync: null,
+    lastSuccessfulSync: null,
+    lastFullSyncAt: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Review store kept in memory, counting writes
+ */
+export class MemoryReviewStore implements ReviewStoreAdapter {
+  writes = 0;
+
+  constructor(public snapshot: ReviewStoreSnapshot = createReviewStoreSnapshot()) {}
+
+  async read() {
+    return structuredClone(this.snapshot);
+  }
+
+  async write(snapshot: ReviewStoreSnapshot) {
+    this.writes++;
+    this.snapshot = structuredClone(snapshot);
+  }
+}
+
+/**
+ * Property catalog store kept in memory
+ */
+export class MemoryCatalogStore implements PropertyCatalogStoreAdapter {
+  snapshot: PropertyCatalogSnapshot = {
+    version: PROPERTY_CATALOG_VERSION,
+    listings: {},
+    lastSync: null,
+    lastSuccessfulSync: null,
+  };
+
+  async read() {
+    return structuredClone(this.snapshot);
+  }
+
+  async write(snapshot: PropertyCatalogSnapshot) {
+    this.snapshot = structuredClone(snapshot);
+  }
+}
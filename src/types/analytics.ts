@@ -0,0 +1,90 @@
+/**
+ * Types for review analytics over time
+ *
+ * Guest ratings, review volume and category averages bucketed into weeks,
+ * months or quarters, for the whole portfolio and per property or channel.
+ */
+
+import type { CategorySummary } from '@/types/review';
+
+export type AnalyticsInterval = 'week' | 'month' | 'quarter';
+
+export type AnalyticsGroupBy = 'property' | 'channel';
+
+export interface AnalyticsQuery {
+  interval: AnalyticsInterval;
+  groupBy: AnalyticsGroupBy;
+}
+
+export interface AnalyticsPeriod {
+  /** First day of the period (`YYYY-MM-DD`, UTC) */
+  start: string;
+  /** e.g. "Nov 2024", "Q4 2024" or "11 Nov 2024" (week starting) */
+  label: string;
+}
+
+/**
+ * One series' reviews in one period
+ */
+export interface AnalyticsBucket {
+  /** Start of the period, matching `AnalyticsPeriod.start` */
+  period: string;
+  reviewCount: number;
+  /** Average overall rating (out of 5), null when the period has no reviews */
+  averageRating: number | null;
+  /** Average rating per category (out of 10), only categories rated in the period */
+  categoryAverages: Record<string, number>;
+  /** Change in average rating from the previous period, null if either has no reviews */
+  ratingChange: number | null;
+  /** Change in review count from the previous period, null for the first period */
+  reviewCountChange: number | null;
+}
+
+export type TrendDirection = 'up' | 'down' | 'stable';
+
+/**
+ * Direction of ratings over time, from a least-squares fit of rating
+ * against review date
+ */
+export interface RatingTrend {
+  direction: TrendDirection;
+  /** Fitted change in rating per 30 days, null with too few reviews */
+  slopePerMonth: number | null;
+  /** Whether the slope is distinguishable from zero at the 95% level */
+  significant: boolean;
+  /** Reviews the trend is based on */
+  reviewCount: number;
+}
+
+export interface AnalyticsSeries {
+  /** Property ID or channel key; `all` for the overall series */
+  key: string;
+  label: string;
+  reviewCount: number;
+  averageRating: number | null;
+  /** One bucket per period in `ReviewAnalytics.periods` */
+  buckets: AnalyticsBucket[];
+  trend: RatingTrend;
+}
+
+export interface ReviewAnalytics {
+  interval: AnalyticsInterval;
+  groupBy: AnalyticsGroupBy;
+  periods: AnalyticsPeriod[];
+  /** Every matching review */
+  overall: AnalyticsSeries;
+  /** One series per property or channel, most reviewed first */
+  series: AnalyticsSeries[];
+  /** Categories rated by the matching reviews */
+  categories: CategorySummary[];
+}
+
+/**
+ * Response of `GET /api/reviews/analytics`
+ */
+export interface ReviewAnalyticsResponse extends Partial<ReviewAnalytics> {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  issues?: string[];
+}
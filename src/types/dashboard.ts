@@ -0,0 +1,43 @@
+/**
+ * Types for the dashboard summary
+ *
+ * Aggregates the dashboard shows above and beside the paged review list,
+ * computed on the server so the dashboard never loads every review.
+ */
+
+import type { RatingResult } from '@/types/rating';
+import type { StayInsights } from '@/types/reservation';
+import type { NormalizedReviewsResponse, PropertyPerformance } from '@/types/review';
+
+/**
+ * Portfolio totals over every guest review, approved or not
+ */
+export interface DashboardStats {
+  totalReviews: number;
+  approvedCount: number;
+  /** Reviews rated 4.5 or more */
+  fiveStarCount: number;
+  /** Reviews rated 2 or less */
+  lowRatingCount: number;
+}
+
+export interface DashboardSummary {
+  stats: DashboardStats;
+  /** Portfolio rating from the rating calculator, as public pages show it */
+  publicRating: RatingResult;
+  /** One entry per property, highest rating first (see `src/lib/rating.ts`) */
+  properties: PropertyPerformance[];
+  /** Ratings by length and season of stay */
+  stays: StayInsights;
+  /** Filter options, provenance and rating settings, as in the reviews response */
+  meta: Omit<NormalizedReviewsResponse['meta'], 'unfilteredTotal' | 'pagination'>;
+}
+
+/**
+ * API response for the dashboard summary
+ */
+export interface DashboardSummaryResponse extends Partial<DashboardSummary> {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
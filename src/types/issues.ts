@@ -0,0 +1,89 @@
+/**
+ * Types for recurring-issue detection
+ *
+ * Reviews are tagged with issues (noise, Wi-Fi, hot water, ...) found in
+ * their text, and the tags are counted per property and over time so
+ * managers can spot problems that keep coming back.
+ */
+
+import type { AnalyticsInterval, AnalyticsPeriod } from '@/types/analytics';
+
+/**
+ * An entry of the issue lexicon
+ */
+export interface IssueDefinition {
+  key: string;
+  label: string;
+  /** Words and phrases that name the topic; a complaint word must be nearby */
+  terms: string[];
+  /** Words and phrases that are a complaint on their own (e.g. "noisy") */
+  complaints: string[];
+}
+
+/**
+ * An issue found in a review
+ */
+export interface ReviewIssueMatch {
+  issue: string;
+  /** Sentence the issue was found in */
+  excerpt: string;
+  /** Private notes are only matched for managers and never shown publicly */
+  source: 'content' | 'privateNotes';
+}
+
+export interface IssueQuery {
+  interval: AnalyticsInterval;
+}
+
+export interface IssuePropertyCount {
+  propertyId: string;
+  label: string;
+  reviewCount: number;
+  /** Share of the property's analysed reviews (0-1) */
+  share: number;
+}
+
+export interface IssueSummary {
+  key: string;
+  label: string;
+  /** Reviews tagged with the issue */
+  reviewCount: number;
+  /** Share of all analysed reviews (0-1) */
+  share: number;
+  /** Average overall rating of the tagged reviews, null if none are rated */
+  averageRating: number | null;
+  /** Properties with the issue, most tagged first */
+  byProperty: IssuePropertyCount[];
+  /** Tagged reviews per period in `IssueReport.periods` */
+  buckets: { period: string; reviewCount: number }[];
+  /** A few sentences the issue was found in, newest first */
+  examples: string[];
+}
+
+/**
+ * A phrase that keeps appearing in complaints but is not in the lexicon
+ */
+export interface IssuePhrase {
+  phrase: string;
+  reviewCount: number;
+}
+
+export interface IssueReport {
+  interval: AnalyticsInterval;
+  periods: AnalyticsPeriod[];
+  /** Guest reviews analysed */
+  analysedReviews: number;
+  /** Issues found at least once, most frequent first */
+  topIssues: IssueSummary[];
+  phrases: IssuePhrase[];
+}
+
+/**
+ * Response of `GET /api/reviews/issues`
+ */
+export interface IssueReportResponse extends Partial<IssueReport> {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  issues?: string[];
+}
@@ -0,0 +1,108 @@
+/**
+ * Types for the property catalog and the Hostaway listings it is synced from
+ *
+ * A property is one of our listings as guests see it. Its `id` is the
+ * Hostaway `listingId`, which is also the `propertyId` of its reviews.
+ */
+
+// ============================================================================
+// Hostaway Listings API Types (Raw Response Structure)
+// ============================================================================
+
+export interface HostawayListingAmenity {
+  id?: number;
+  amenityId?: number;
+  amenityName: string;
+}
+
+export interface HostawayListingImage {
+  id?: number;
+  url: string;
+  caption?: string | null;
+  sortOrder?: number | null;
+}
+
+/**
+ * Listing as returned by Hostaway's `/listings` endpoint
+ * Only the fields mapped into the property catalog are listed
+ */
+export interface HostawayListing {
+  id: number;
+  name: string;
+  externalListingName?: string | null;
+  description?: string | null;
+  address?: string | null;
+  publicAddress?: string | null;
+  street?: string | null;
+  city?: string | null;
+  country?: string | null;
+  personCapacity?: number | null;
+  bedroomsNumber?: number | null;
+  bathroomsNumber?: number | null;
+  timeZoneName?: string | null;
+  listingAmenities?: HostawayListingAmenity[];
+  listingImages?: HostawayListingImage[];
+}
+
+export interface HostawayListingsResponse {
+  status: 'success' | 'fail' | 'error';
+  result: HostawayListing[];
+  count?: number;
+  message?: string;
+}
+
+// ============================================================================
+// Property Catalog Types
+// ============================================================================
+
+/**
+ * How many guests a property sleeps and its room counts
+ */
+export interface PropertyCapacity {
+  guests: number;
+  bedrooms: number;
+  bathrooms: number;
+}
+
+/**
+ * A listing in the property catalog
+ */
+export interface Property {
+  id: string;
+  /** Full listing name */
+  name: string;
+  /** Name without the marketing suffix, for compact UI */
+  shortName: string;
+  /** Neighbourhood (e.g. `Shoreditch`) */
+  location: string;
+  city: string;
+  /** Street address as published to guests */
+  address?: string;
+  description: string;
+  amenities: string[];
+  /** Image URLs, the first is the cover image */
+  images: string[];
+  capacity: PropertyCapacity;
+  /** IANA timezone the listing's upstream timestamps are written in */
+  timezone: string;
+  /** Google place the listing's Google reviews are read from */
+  googlePlaceId?: string;
+  /** When the details were last synced from Hostaway, unset for hand-kept entries */
+  syncedAt?: string;
+}
+
+/**
+ * Outcome of a single listing sync run
+ */
+export interface ListingSyncRecord {
+  startedAt: string;
+  finishedAt: string;
+  received: number;
+  added: number;
+  updated: number;
+  /** Listings no longer returned by Hostaway, dropped from the synced catalog */
+  removed: number;
+  /** Listings that could not be mapped, with the reasons */
+  rejected: { listingId: number | null; issues: string[] }[];
+  error?: string;
+}
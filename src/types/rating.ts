@@ -0,0 +1,34 @@
+/**
+ * Types for the property rating calculator
+ *
+ * A property's displayed rating is calculated from its guest reviews with
+ * a configurable method, so a handful of reviews (or approving only the
+ * good ones) cannot push a listing above well-reviewed ones.
+ */
+
+export type RatingMethod = 'bayesian' | 'mean';
+
+export interface RatingSettings {
+  /** `bayesian` weights each property toward the prior; `mean` is the plain average */
+  method: RatingMethod;
+  /** How many reviews' worth of weight the prior carries */
+  priorWeight: number;
+  /** Fixed prior (out of 5); null uses the portfolio mean */
+  priorMean: number | null;
+  /** Fewest scored reviews a property needs before it is rated */
+  minReviews: number;
+  /** Score with every published guest review, including ones not approved for display */
+  includeUnapproved: boolean;
+}
+
+export interface RatingResult {
+  /** Rating to display (out of 5), or null below `minReviews` */
+  value: number | null;
+  /** Plain mean of the scored reviews, or null without any */
+  mean: number | null;
+  /** Reviews the rating is based on */
+  reviewCount: number;
+  /** Prior the rating was weighted toward, or null without any reviews */
+  priorMean: number | null;
+  settings: RatingSettings;
+}
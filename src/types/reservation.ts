@@ -0,0 +1,95 @@
+/**
+ * Types for Hostaway reservations and the stay details linked to reviews
+ *
+ * Reviews carry the `reservationId` of the stay they describe; the
+ * reservation supplies check-in/check-out, length of stay, party size,
+ * booking channel and price.
+ */
+
+// ============================================================================
+// Hostaway Reservations API Types (Raw Response Structure)
+// ============================================================================
+
+/**
+ * Reservation as returned by Hostaway's `/reservations` endpoint
+ * Only the fields linked to reviews are listed. Dates are `YYYY-MM-DD`
+ * in the listing's timezone.
+ */
+export interface HostawayReservation {
+  id: number;
+  listingMapId?: number | null;
+  listingName?: string | null;
+  channelName?: string | null;
+  guestName?: string | null;
+  numberOfGuests?: number | null;
+  arrivalDate: string;
+  departureDate: string;
+  nights?: number | null;
+  totalPrice?: number | null;
+  currency?: string | null;
+  status?: string | null;
+}
+
+export interface HostawayReservationsResponse {
+  status: 'success' | 'fail' | 'error';
+  result: HostawayReservation[];
+  count?: number;
+  message?: string;
+}
+
+// ============================================================================
+// Normalized Reservation Types
+// ============================================================================
+
+/**
+ * Stay details attached to a review
+ */
+export interface ReservationInfo {
+  id: string;
+  /** Check-in date (`YYYY-MM-DD`, listing-local) */
+  checkIn: string;
+  /** Check-out date (`YYYY-MM-DD`, listing-local) */
+  checkOut: string;
+  nights: number;
+  guests: number | null;
+  /** Canonical channel key the stay was booked through */
+  channel: string;
+  channelDisplayName: string;
+  totalPrice: number | null;
+  currency: string | null;
+}
+
+/**
+ * Meteorological season of a stay's check-in (northern hemisphere)
+ */
+export type StaySeason = 'spring' | 'summer' | 'autumn' | 'winter';
+
+// ============================================================================
+// Stay Insight Types
+// ============================================================================
+
+/**
+ * Average guest rating of the reviews in one stay group
+ */
+export interface StayRatingGroup {
+  key: string;
+  label: string;
+  reviewCount: number;
+  /** Average overall rating (out of 5), null when the group has no reviews */
+  averageRating: number | null;
+}
+
+/**
+ * How guest ratings vary with length and season of stay
+ */
+export interface StayInsights {
+  /** Guest reviews with a linked reservation (the only ones analysed) */
+  linkedReviews: number;
+  byLength: StayRatingGroup[];
+  bySeason: StayRatingGroup[];
+  /**
+   * Pearson correlation between nights and rating (-1 to 1), null with
+   * fewer than three reviews or no variation
+   */
+  nightsRatingCorrelation: number | null;
+}
@@ -5,6 +5,10 @@
  * ensuring type safety across the application.
  */
 
+import type { TrendDirection } from '@/types/analytics';
+import type { RatingResult, RatingSettings } from '@/types/rating';
+import type { ReservationInfo, StaySeason } from '@/types/reservation';
+
 // ============================================================================
 // Hostaway API Types (Raw Response Structure)
 // ============================================================================
@@ -47,33 +51,105 @@ export interface HostawayApiResponse {
   message?: string;
 }
 
+// ============================================================================
+// Google Places API Types (Raw Response Structure)
+// ============================================================================
+
+/**
+ * Review object from the Places API Place Details response
+ * `time` is seconds since the Unix epoch; ratings are whole stars (1-5)
+ */
+export interface GooglePlaceReview {
+  author_name: string;
+  author_url?: string;
+  profile_photo_url?: string;
+  language?: string;
+  original_language?: string;
+  rating: number;
+  relative_time_description?: string;
+  text: string;
+  time: number;
+  translated?: boolean;
+}
+
+/**
+ * Place Details response (only the fields requested for reviews)
+ */
+export interface GooglePlaceDetailsResponse {
+  status: 'OK' | 'ZERO_RESULTS' | 'NOT_FOUND' | 'INVALID_REQUEST' |
+    'OVER_QUERY_LIMIT' | 'REQUEST_DENIED' | 'UNKNOWN_ERROR';
+  result?: {
+    place_id: string;
+    name: string;
+    reviews?: GooglePlaceReview[];
+  };
+  html_attributions?: string[];
+  error_message?: string;
+}
+
+/**
+ * Link between one of our listings and its Google place
+ */
+export interface GooglePlaceMapping {
+  propertyId: string;
+  listingName: string;
+  placeId: string;
+}
+
+/**
+ * A Google review together with the listing it belongs to
+ * Google reviews carry no ID, so this is what gets stored and normalized
+ */
+export interface GoogleReviewRecord {
+  place: GooglePlaceMapping;
+  review: GooglePlaceReview;
+}
+
 // ============================================================================
 // Normalized Review Types (Frontend-Friendly Structure)
 // ============================================================================
 
 /**
  * Normalized category rating with consistent naming
+ * `rating` is converted to a 10-point scale; the score as the channel
+ * reported it is kept in `rawRating`/`rawMaxRating`
  */
 export interface NormalizedCategory {
   name: string;
   displayName: string;
   rating: number;
   maxRating: number;
+  rawRating: number;
+  rawMaxRating: number;
+}
+
+/**
+ * Overall score exactly as the channel reported it
+ * `value` is null when the channel gave no overall score and
+ * `overallRating` was derived from the categories
+ */
+export interface RawRating {
+  value: number | null;
+  scale: number;
 }
 
 /**
- * Property/Listing information extracted and normalized
+ * Property/Listing information, from the property catalog when the
+ * listing is in it, otherwise derived from the listing name
  */
 export interface PropertyInfo {
   id: string;
   name: string;
   shortName: string;
   location?: string;
+  city?: string;
+  /** IANA timezone of the listing; date-only filters cover its calendar days */
+  timezone?: string;
 }
 
 /**
  * Normalized review structure for frontend consumption
- * All dates are ISO strings, all optional fields have defaults
+ * All dates are UTC ISO strings, all optional fields have defaults
  */
 export interface NormalizedReview {
   id: string;
@@ -86,9 +162,10 @@ export interface NormalizedReview {
   content: string;
   privateNotes?: string;
   
-  // Ratings
+  // Ratings (overall out of 5, categories out of 10, on every channel)
   overallRating: number;
   maxRating: number;
+  rawRating: RawRating;
   categories: NormalizedCategory[];
   
   // Metadata
@@ -97,12 +174,98 @@ export interface NormalizedReview {
   channel: string;
   channelDisplayName: string;
   
-  // Dates
+  // Dates (UTC ISO string, formatted in the viewer's locale when displayed)
   submittedAt: string;
-  submittedAtFormatted: string;
+
+  // Stay the review is about; `reservation` is linked when reviews are
+  // read and is null if the reservation is unknown
+  reservationId?: string;
+  reservation?: ReservationInfo | null;
   
   // Manager controls
   isApprovedForDisplay: boolean;
+
+  // Issues found in the text and private notes (dashboard API only, see `src/lib/issues.ts`)
+  issues?: string[];
+}
+
+/**
+ * A review category present in a response
+ */
+export interface CategorySummary {
+  name: string;
+  displayName: string;
+}
+
+/**
+ * Where the reviews in a response came from
+ * - live: fetched from the Hostaway API
+ * - mock: bundled sample data
+ * - file: a configured JSON file
+ * - cache: previously synced data, served because every review source failed
+ */
+export type ReviewDataMode = 'live' | 'mock' | 'file' | 'cache';
+
+/**
+ * Result of the latest sync for one review source (Hostaway, Google, ...)
+ * On `error` the source's previously synced reviews are still served
+ */
+export interface ReviewSourceStatus {
+  id: string;
+  displayName: string;
+  status: 'ok' | 'error';
+  reviewCount: number;
+  error?: string;
+  errorCode?: string;
+}
+
+/**
+ * Provenance of the data in a reviews response
+ */
+export interface ReviewDataSource {
+  mode: ReviewDataMode;
+  fetchedAt: string;
+  upstreamStatus: 'ok' | 'error' | 'not_contacted';
+  upstreamError?: string;
+  recordCounts: {
+    received: number;
+    normalized: number;
+    returned: number;
+  };
+  sources?: ReviewSourceStatus[];
+}
+
+/**
+ * An upstream record that failed validation and was not imported
+ */
+export interface QuarantinedRecord {
+  source: string;
+  /** Upstream ID when one could be read from the record */
+  recordId: string | null;
+  issues: string[];
+  raw: unknown;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Number of quarantined records, in total and per review source
+ */
+export interface RejectedSummary {
+  total: number;
+  bySource: Record<string, number>;
+}
+
+/**
+ * Pagination details for a paged reviews response
+ * `nextCursor` can be passed back as `cursor` to fetch the following page
+ */
+export interface ReviewPagination {
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  hasMore: boolean;
+  nextCursor: string | null;
 }
 
 /**
@@ -113,20 +276,52 @@ export interface NormalizedReviewsResponse {
   reviews: NormalizedReview[];
   meta: {
     total: number;
+    unfilteredTotal?: number;
     properties: PropertyInfo[];
     channels: string[];
+    categories: CategorySummary[];
     dateRange: {
       earliest: string;
       latest: string;
     };
+    source?: ReviewDataSource;
+    rejected?: RejectedSummary;
+    pagination?: ReviewPagination;
+    /** How property ratings are calculated (see `src/lib/rating.ts`) */
+    rating?: RatingSettings;
+  };
+  error?: string;
+}
+
+/**
+ * API response for a property's public (approved guest) reviews
+ */
+export interface PublicReviewsResponse {
+  success: boolean;
+  reviews: NormalizedReview[];
+  meta?: {
+    /** Matching reviews across all pages */
+    total: number;
+    pagination: ReviewPagination;
   };
   error?: string;
+  issues?: string[];
 }
 
 // ============================================================================
 // Dashboard & Filter Types
 // ============================================================================
 
+/**
+ * Category score threshold (category ratings are out of 10)
+ * e.g. { category: 'cleanliness', max: 6 } matches reviews with cleanliness ≤ 6
+ */
+export interface CategoryFilter {
+  category: string;
+  min?: number;
+  max?: number;
+}
+
 /**
  * Filter options for the dashboard
  */
@@ -140,17 +335,42 @@ export interface ReviewFilters {
   dateFrom?: string;
   dateTo?: string;
   approvedOnly?: boolean;
+  categories?: CategoryFilter[];
+  /** Length of stay bounds in nights (reviews without a reservation never match) */
+  minNights?: number;
+  maxNights?: number;
+  /** Season of the stay's check-in */
+  season?: StaySeason;
+  /** Issue key the review's text must mention (see `src/lib/issues.ts`) */
+  issue?: string;
 }
 
 /**
  * Sort options for reviews
  */
-export type ReviewSortField = 'date' | 'rating' | 'property' | 'channel';
+export type ReviewSortField = 'date' | 'rating' | 'property' | 'channel' | 'category';
 export type ReviewSortOrder = 'asc' | 'desc';
 
 export interface ReviewSort {
   field: ReviewSortField;
   order: ReviewSortOrder;
+  /** Category to sort by when field is 'category' */
+  category?: string;
+}
+
+/**
+ * Sort, filter and search options for public reviews
+ */
+export type PublicReviewSort = 'newest' | 'highest' | 'lowest';
+
+export interface PublicReviewQuery {
+  sort: PublicReviewSort;
+  /** Star rating, matching overall ratings that round to it */
+  stars?: number;
+  /** Stay length bucket key (`short`, `medium` or `long`) */
+  stay?: string;
+  /** Text to look for in the review or the reviewer's name */
+  search?: string;
 }
 
 /**
@@ -159,12 +379,16 @@ export interface ReviewSort {
 export interface PropertyPerformance {
   property: PropertyInfo;
   totalReviews: number;
+  /** Plain mean of every guest review, rounded to one decimal */
   averageRating: number;
+  /** Rating for display and ranking (see `src/lib/rating.ts`) */
+  rating: RatingResult;
   ratingDistribution: Record<number, number>;
   categoryAverages: Record<string, number>;
   approvedCount: number;
   pendingCount: number;
-  recentTrend: 'up' | 'down' | 'stable';
+  /** Rating trend over the year to the newest review (see `src/lib/analytics.ts`) */
+  recentTrend: TrendDirection;
   channelBreakdown: Record<string, number>;
 }
 
@@ -0,0 +1,52 @@
+/**
+ * Types for the embeddable reviews widget
+ *
+ * The widget shows a property's approved guest reviews on external sites,
+ * as an iframe or as JSON for headless consumers.
+ */
+
+import type { NormalizedReview } from './review';
+
+export type WidgetTheme = 'light' | 'dark';
+
+/**
+ * Display options, shared by the iframe, the script loader and the JSON endpoint
+ */
+export interface WidgetOptions {
+  theme: WidgetTheme;
+  /** Most reviews to include (newest first) */
+  maxReviews: number;
+  /** Lowest overall rating (out of 5) of an included review */
+  minRating: number;
+}
+
+export interface WidgetData {
+  property: {
+    id: string;
+    name: string;
+    city: string;
+    /** Public property page */
+    url: string;
+  };
+  /**
+   * The property's displayed rating (see `src/lib/rating.ts`), across every
+   * scored review, not only the ones included
+   */
+  rating: {
+    /** Smoothed public rating, null below the minimum review count */
+    value: number | null;
+    count: number;
+  };
+  reviews: NormalizedReview[];
+  options: WidgetOptions;
+}
+
+/**
+ * Response of `GET /api/widget/[id]`
+ */
+export interface WidgetResponse extends Partial<WidgetData> {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  issues?: string[];
+}